@@ -0,0 +1,84 @@
+/**
+ * 정정 공시 체인에서 공시 하나의 위치
+ * 같은 보고서명(정정 표시 제외)의 공시를 접수번호 순으로 이어, 원본 공시 뒤의 정정 공시를 한 체인으로 봅니다.
+ */
+export interface AmendmentInfo {
+    /** 정정 구분 (예: "기재정정", "첨부정정", 원본 공시는 null) */
+    amendmentType: string | null;
+    /** 정정 표시("[기재정정]" 등)를 뗀 보고서명 */
+    baseReportName: string;
+    /** 체인의 원본 공시 접수번호 (원본이 목록에 없으면 null) */
+    originalRcpNo: string | null;
+    /** 이 공시가 정정한 바로 앞 버전의 접수번호 */
+    amends: string | null;
+    /** 이 공시를 대체한 다음 버전의 접수번호 (목록에 없으면 null) */
+    supersededBy: string | null;
+    /** 이후 정정 공시로 대체되었는지 여부 (비고의 "정" 표시 포함) */
+    superseded: boolean;
+    /** 체인 안의 순서 (0부터) */
+    version: number;
+}
+
+/** 정정 체인 계산에 필요한 공시 정보 */
+export interface AmendableFiling {
+    reportName: string;
+    remarks: string;
+    rcpNo?: string;
+    href: string;
+}
+
+/**
+ * 보고서명 앞의 "[기재정정]", "[첨부정정]" 등의 표시를 분리
+ */
+export function parseAmendedReportName(reportName: string): { amendmentType: string | null, baseReportName: string } {
+    const tags: string[] = [];
+    let rest = reportName.replace(/\s+/g, " ").trim();
+    for (let match = /^\[([^\]]*)\]\s*/.exec(rest); match; match = /^\[([^\]]*)\]\s*/.exec(rest)) {
+        tags.push(match[1].trim());
+        rest = rest.slice(match[0].length);
+    }
+    return { amendmentType: tags.find(tag => /정정/.test(tag)) ?? null, baseReportName: rest };
+}
+
+/**
+ * 목록의 공시를 정정 체인으로 연결하여 공시마다 AmendmentInfo를 붙임 (입력 순서 유지)
+ * 접수번호 순으로 보아 원본 공시가 새 체인을 시작하고, 정정 공시는 같은 보고서명의 가장 최근 체인 뒤에 이어집니다.
+ */
+export function linkAmendments<T extends AmendableFiling>(filings: T[]): (T & { amendment: AmendmentInfo })[] {
+    const keyOf = (filing: T) => filing.rcpNo ?? filing.href;
+    const chainsByName = new Map<string, T[][]>();
+    const sorted = [...filings].sort((a, b) => keyOf(a).localeCompare(keyOf(b)));
+
+    for (const filing of sorted) {
+        const { amendmentType, baseReportName } = parseAmendedReportName(filing.reportName);
+        const chains = chainsByName.get(baseReportName) ?? [];
+        chainsByName.set(baseReportName, chains);
+        if (amendmentType === null || chains.length === 0) {
+            chains.push([filing]);
+        } else {
+            chains[chains.length - 1].push(filing);
+        }
+    }
+
+    const amendments = new Map<T, AmendmentInfo>();
+    for (const chains of chainsByName.values()) {
+        for (const chain of chains) {
+            const original = parseAmendedReportName(chain[0].reportName).amendmentType === null ? chain[0] : null;
+            chain.forEach((filing, version) => {
+                const { amendmentType, baseReportName } = parseAmendedReportName(filing.reportName);
+                const next = chain[version + 1];
+                amendments.set(filing, {
+                    amendmentType,
+                    baseReportName,
+                    originalRcpNo: original?.rcpNo ?? null,
+                    amends: version > 0 ? chain[version - 1].rcpNo ?? null : null,
+                    supersededBy: next?.rcpNo ?? null,
+                    superseded: next !== undefined || /정/.test(filing.remarks),
+                    version,
+                });
+            });
+        }
+    }
+
+    return filings.map(filing => ({ ...filing, amendment: amendments.get(filing)! }));
+}
@@ -1,16 +1,26 @@
 import * as fs from "fs";
 import * as path from "path";
-import readline from 'readline';
 import axios from "axios";
 import { load } from "cheerio"
 import * as iconv from "iconv-lite";
-import { FileLink, FileDownloader } from './lib/FileDownloader';
+import { AmendmentInfo, linkAmendments } from './DartAmendments';
+import { extractFinancialStatements, isFinancialStatementSection, PERIODIC_REPORT_NAME, toFinancialCsv } from './DartFinancialStatements';
+import { ArchiveMember, extractZipArchive } from './lib/ArchiveExtractor';
+import { normalizeCompanyName } from './lib/CompanyList';
+import { buildDocumentPath, findExtension } from './lib/DocumentPath';
+import { FileLink } from './lib/FileDownloader';
+import { createFilingMatcher, FilingFilter } from './lib/FilingFilter';
+import { RateLimitConfig } from './lib/HostRateLimiter';
+import { htmlToMarkdown } from './lib/HtmlToMarkdown';
+import { logger } from './lib/Logger';
+import { decodeHtml } from './lib/PageLoader';
+import { CrawlJob, DocumentRecord, DownloadedDocument, formatCompactDate, Listing, PageResult, SourceAdapter, SourceContext } from './lib/SourceAdapter';
 
 /**
  * 검색 파라미터를 정의하는 인터페이스
  * 서버에 요청할 때 사용되는 각 검색 필드와 값들을 정의합니다.
  */
-   interface SearchParams {
+export interface SearchParams {
     /** 현재 페이지 번호 (1부터 시작) */
     currentPage: number;
     /** 한 페이지당 표시할 최대 결과 수 */
@@ -39,7 +49,7 @@ import { FileLink, FileDownloader } from './lib/FileDownloader';
  * 검색 결과 항목을 정의하는 인터페이스
  * HTML 응답에서 파싱된 각 검색 결과 데이터를 표현합니다.
  */
-interface SearchResultItem {
+export interface SearchResultItem {
     /** 결과 번호 (1부터 시작) */
     number: number;
     /** 공시 대상 회사 이름 */
@@ -54,6 +64,76 @@ interface SearchResultItem {
     remarks: string;
     /** 보고서 View 링크 (전체 URL) */
     href: string;
+    /** 접수번호 */
+    rcpNo?: string;
+    /** 공시 대상 회사 고유번호 (OpenDART corp_code, 8자리) */
+    corpCode?: string;
+    /** 종목코드 (상장사만, 6자리) */
+    stockCode?: string;
+    /** 받은 ZIP을 푼 결과 (ZIP으로 받은 공시만) */
+    archive?: FilingArchive;
+    /** 공시 안에서 이 파일이 해당하는 문서 (본문, 첨부서류, 감사보고서) */
+    document?: FilingDocumentInfo;
+    /** 공시 뷰어 HTML을 변환한 Markdown 파일 경로 (--markdown 수집 시) */
+    markdown?: string;
+    /** 정기보고서 재무제표 추출 결과 파일과 값 개수 (--financials 수집 시) */
+    financials?: { json: string, csv: string, items: number };
+    /** 정정 공시 체인 (원본, 이전/다음 버전, 대체 여부) */
+    amendment?: AmendmentInfo;
+    /** 파일의 정규 문서 ID (웹: 접수번호_문서번호, OpenDART 원본파일: 접수번호) */
+    documentId?: string;
+    /** 서버가 알려준 원래 파일명 (Content-Disposition 등) */
+    originalFilename?: string;
+}
+
+/** 공시 안의 문서 구분 */
+export type FilingDocumentRole = "main" | "attachment" | "audit";
+
+export interface FilingDocumentInfo {
+    /** 문서번호 */
+    dcmNo: string;
+    /** 뷰어에 표시되는 문서 제목 */
+    title: string;
+    role: FilingDocumentRole;
+}
+
+/**
+ * 공시 ZIP을 접수번호 폴더에 푼 결과
+ */
+export interface FilingArchive {
+    rcpNo: string;
+    /** 원본 ZIP 파일명 */
+    source: string;
+    folder: string;
+    /** 압축 안의 파일 (종류별 분류, 상위 공시의 접수번호 포함) */
+    members: (ArchiveMember & { parentRcpNo: string })[];
+}
+
+/**
+ * 검색 결과 페이지 정보를 정의하는 인터페이스
+ * search.ax 응답 하단의 페이지 정보 영역(예: "[1/5] [총 73건]")에서 파싱됩니다.
+ */
+export interface SearchPageInfo {
+    /** 현재 페이지 번호 */
+    currentPage: number;
+    /** 전체 페이지 수 */
+    totalPages: number;
+    /** 전체 검색 결과 건수 (파싱 실패 시 null) */
+    totalCount: number | null;
+}
+
+/**
+ * 기업명 검색 결과에 나타난 공시 대상 회사별 집계 (모호성 보고서용)
+ */
+interface IssuerSummary {
+    corpName: string;
+    corpCode: string | null;
+    /** 검색 결과에 나온 이 회사의 공시 (보고서 URL, 구간을 나눠 다시 검색해도 한 번만 셈) */
+    filings: Set<string>;
+    /** 회사명이 검색한 기업명과 정확히 같은지 여부 */
+    nameMatches: boolean;
+    /** 수집 대상에 포함했는지 여부 (같은 이름의 회사가 여럿이면 목록에서 처음 수집한 고유번호만) */
+    accepted: boolean;
 }
 
 interface PdfDownloadInfo {
@@ -70,35 +150,167 @@ interface PdfDownloadInfo {
     dcmNo: string;
 }
 
+/**
+ * 공시 뷰어의 문서 목록 항목 (본문과 첨부 문서마다 문서번호가 다름)
+ */
+interface FilingDocument extends PdfDownloadInfo, FilingDocumentInfo {}
+
+/**
+ * 공시 뷰어 목차 트리의 항목 (각 항목이 뷰어의 한 구간을 가리킴)
+ */
+interface ViewerNode {
+    text?: string;
+    rcpNo?: string;
+    dcmNo?: string;
+    eleId?: string;
+    offset?: string;
+    length?: string;
+    dtd?: string;
+}
+
+/** 받아 온 뷰어 목차 구간 */
+interface ViewerSection {
+    title: string;
+    html: string;
+}
+
+/**
+ * 뷰어 페이지 스크립트에서 목차 트리 항목 추출 (node1['text'] = "..."; node1['dcmNo'] = "..."; 형식)
+ */
+function parseViewerTree(html: string): ViewerNode[] {
+    const nodes = new Map<string, ViewerNode>();
+    for (const [, node, field, value] of html.matchAll(/(node\d+)\['(text|rcpNo|dcmNo|eleId|offset|length|dtd)'\]\s*=\s*"([^"]*)"/g)) {
+        nodes.set(node, { ...nodes.get(node), [field]: value });
+    }
+    return Array.from(nodes.values());
+}
+
+/** 감사보고서/검토보고서 첨부 문서 제목 */
+const AUDIT_REPORT_TITLE = /감사보고서|검토보고서|감사인/;
+
+/** DART 문서의 코퍼스 경로 소스/분류 이름 (목록의 sourceConfig와 같음) */
+export const DART_SOURCE_NAME = "DART";
+export const DART_CATEGORY_NAME = "공시자료";
+
+/**
+ * 공시 접수일 (YYYY-MM-DD, 목록의 접수일이 없으면 접수번호 앞 8자리)
+ */
+export function getFilingDate(item: Pick<SearchResultItem, "receiveDate" | "rcpNo">): string | null {
+    const dateMatch = /(\d{4})\D?(\d{2})\D?(\d{2})/.exec(item.receiveDate) ?? /^(\d{4})(\d{2})(\d{2})/.exec(item.rcpNo ?? "");
+    return dateMatch ? `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}` : null;
+}
+
+/**
+ * 코퍼스의 DART 문서 경로 (DART/공시자료/{yyyy}/{mm}/{문서 ID}.{확장자}, 날짜는 접수일)
+ */
+export function buildFilingPath(item: Pick<SearchResultItem, "receiveDate" | "rcpNo">, documentId: string, extension: string): string {
+    return buildDocumentPath({
+        source: DART_SOURCE_NAME,
+        category: DART_CATEGORY_NAME,
+        date: getFilingDate(item),
+        id: documentId,
+        extension,
+    });
+}
+
+/**
+ * 받은 공시 ZIP을 ZIP 파일 옆의 같은 이름 폴더에 풀고 내부 파일 목록을 반환
+ * ZIP이 아니거나 이미 풀어 둔 경우에는 undefined를 반환합니다.
+ */
+export function unpackFilingArchive(document: DownloadedDocument): Pick<SearchResultItem, "archive"> | undefined {
+    const { fileLink } = document;
+    if (!/\.zip$/i.test(fileLink.filename)) {
+        return undefined;
+    }
+    const item = document.metadata as Partial<SearchResultItem> | undefined;
+    if (item?.archive && fs.existsSync(item.archive.folder)) {
+        return undefined;
+    }
+
+    // 접수번호가 없는 예전 메타데이터는 다운로드 URL에서 찾음
+    const rcpNo = item?.rcpNo ?? /rce?pt?_no=(\d+)/.exec(fileLink.url)?.[1] ?? path.parse(fileLink.filename).name;
+    const parsed = path.parse(path.join(document.folder, fileLink.filename));
+    const extracted = extractZipArchive(document.filePath, path.join(parsed.dir, parsed.name));
+    logger.debug(`Extracted ${extracted.members.length} files from ${fileLink.filename}`);
+    return {
+        archive: {
+            rcpNo,
+            source: fileLink.filename,
+            folder: extracted.folder,
+            members: extracted.members.map(member => ({ ...member, parentRcpNo: rcpNo })),
+        },
+    };
+}
+
 /**
  * DART 공시 페이지 구조:
  * - 검색 결과에서 각 공시의 href로 상세 페이지 접근
- * - 상세 페이지의 다운로드 버튼에서 rcpNo(접수번호)와 dcmNo(문서번호) 추출
+ * - 상세 페이지의 다운로드 버튼에서 rcpNo(접수번호)와 본문 dcmNo(문서번호) 추출
+ * - 첨부 문서(감사보고서, 첨부서류, 정정 하위 문서)는 첨부선택 목록과 목차 트리에 각자의 dcmNo로 나타남
  * - PDF 다운로드 URL: /pdf/download/pdf.do?rcp_no={rcpNo}&dcm_no={dcmNo}
  */
 
-class DartFetcher {
-    private readonly BASE_URL = "https://dart.fss.or.kr";
-    private metaFilePath: string;
-    private outputFilePath: string;
-    private downloadFolderPath: string;
-
-    constructor(
-        private sourceConfig: {sourceName: string, categoryId: string, categoryName: string},
-        private downloadMinDelayMs: number = 0,
-        private downloadMaxDelayMs: number = 0
-    ) {
-        this.metaFilePath = `./downloads/${this.sourceConfig.sourceName}-${this.sourceConfig.categoryId}-${this.sourceConfig.categoryName}-meta.json`;
-        this.outputFilePath = `./downloads/${this.sourceConfig.sourceName}-${this.sourceConfig.categoryId}-${this.sourceConfig.categoryName}.json`;
-        this.downloadFolderPath = `./downloads/${this.sourceConfig.sourceName}-${this.sourceConfig.categoryId}-${this.sourceConfig.categoryName}`;
+/**
+ * 문서 레코드의 메타데이터에 정정 공시 체인 정보를 붙임 (OpenDartFetcher와 공통)
+ */
+export function linkRecordAmendments(records: DocumentRecord<SearchResultItem>[]): DocumentRecord<SearchResultItem>[] {
+    const linked = linkAmendments(records.map(record => record.metadata));
+    const superseded = linked.filter(item => item.amendment.superseded).length;
+    if (superseded > 0) {
+        logger.info(`Marked ${superseded} filings superseded by later amendments`);
+    }
+    return records.map((record, i) => ({ ...record, metadata: linked[i] }));
+}
+
+/**
+ * 검색 결과 HTML의 페이지 정보 영역에서 현재/전체 페이지와 전체 건수 추출
+ * @param html 공시 자료 조회 결과 (HTML 테이블 형식)
+ * @returns SearchPageInfo 객체 (페이지 정보가 없으면 null)
+ */
+export function parsePageInfo(html: string): SearchPageInfo | null {
+    const $ = load(html);
+    const text = $(".pageInfo").text().replace(/\s+/g, " ").trim();
+
+    const pageMatch = /\[\s*(\d+)\s*\/\s*(\d+)\s*\]/.exec(text);
+    if (!pageMatch) {
+        return null;
     }
 
+    const countMatch = /총\s*([\d,]+)\s*건/.exec(text);
+    return {
+        currentPage: parseInt(pageMatch[1]),
+        totalPages: parseInt(pageMatch[2]),
+        totalCount: countMatch ? parseInt(countMatch[1].replace(/,/g, "")) : null,
+    };
+}
+
+/** DART 요청 속도 제한 기본값 (검색, 보고서 페이지, 다운로드 요청에 공통 적용) */
+export const DART_RATE_LIMIT: RateLimitConfig = { requestsPerSecond: 0.5, maxConcurrency: 1, jitterMs: 1000 };
+
+export class DartFetcher implements SourceAdapter<SearchResultItem> {
+    private readonly BASE_URL = "https://dart.fss.or.kr";
+    private readonly MAX_RESULTS = 15;
+    public readonly rateLimit = DART_RATE_LIMIT;
+    public readonly firstPage = 1;
+    /** 목록(검색 기업명)별로 검색 결과에 나타난 회사 */
+    private issuers = new Map<string, Map<string, IssuerSummary>>();
+    /** 목록별로 수집 대상으로 정한 회사 고유번호 (같은 이름의 다른 회사 공시를 제외하기 위함) */
+    private corpCodes = new Map<string, string>();
+    /** 받은 문서마다 공시 뷰어 HTML을 Markdown으로도 저장할지 여부 */
+    private saveMarkdown = false;
+    /** 정기보고서의 재무제표 값을 JSON/CSV로 추출할지 여부 */
+    private saveFinancials = false;
+    private filingFilter: FilingFilter | undefined;
+    /** 정정으로 대체된 공시도 검색할지 여부 (false면 최종 보고서만) */
+    private amendmentHistory = false;
+    private matchesFilter = createFilingMatcher(undefined);
+
     /**
      * 코스닥 기업명으로 공시자료 리스트 조회
      * @param params 검색 조건 (기업명, 기간, 공시유형 등)
      * @returns 공시 자료 조회 결과 (HTML 테이블 형식)
      */
-    private async search(params: SearchParams): Promise<string> {
+    private async search(params: SearchParams, context: SourceContext): Promise<string> {
         try {
             const formData = new URLSearchParams();
             formData.append("currentPage", params.currentPage.toString());
@@ -115,12 +327,13 @@ class DartFetcher {
             }
             formData.append("finalReport", params.finalReport ? "recent" : "");
 
-            const response = await axios.post(this.BASE_URL + "/dsab001/search.ax", formData, {
+            const searchUrl = this.BASE_URL + "/dsab001/search.ax";
+            const response = await context.request(searchUrl, () => axios.post(searchUrl, formData, {
                 headers: { "Content-Type": "application/x-www-form-urlencoded" },
-            });
+            }));
             return response.data;
         } catch (error) {
-            console.error("An error occurred during the search:", error);
+            logger.error("An error occurred during the search", { error });
             throw new Error("An error occurred while processing the search request.");
         }
     }
@@ -140,14 +353,20 @@ class DartFetcher {
             const cells = $(row).find("td");
             if (cells.length === 6) {
                 const reportLink = $(cells[2]).find("a");
+                const corpLink = $(cells[1]).find("a");
+                const href = this.BASE_URL + reportLink.attr("href")!;
+                // 기업명 링크: openCorpInfoNew('{corpCode}', 'winCorpInfo', ...)
+                const corpCode = /openCorpInfoNew\('(\d{8})'/.exec(`${corpLink.attr("href") ?? ""} ${corpLink.attr("onclick") ?? ""}`)?.[1];
                 const item: SearchResultItem = {
                     number: parseInt($(cells[0]).text().trim() || "0"),
-                    corpName: $(cells[1]).find("a").text().trim(),
+                    corpName: corpLink.text().trim(),
                     reportName: reportLink.text().replace(/[\n\t]+/g, " ").replace(/\s+/g, " ").trim(),
                     submitter: $(cells[3]).text().replace(/[\n\t]+/g, " ").replace(/\s+/g, " ").trim(),
                     receiveDate: $(cells[4]).text().trim(),
                     remarks: $(cells[5]).text().replace(/[\n\t]+/g, " ").replace(/\s+/g, " ").trim() || "-",
-                    href: this.BASE_URL + reportLink.attr("href")!,
+                    href,
+                    rcpNo: /rcpNo=(\d+)/.exec(href)?.[1],
+                    corpCode,
                 };
                 results.push(item);
             }
@@ -157,39 +376,71 @@ class DartFetcher {
     }
 
     /**
-     * 보고서 페이지에서 접수번호와 문서번호 추출
-     * @param reportUrl 보고서 URL (BASE_URL 제외)
-     * @returns PdfDownloadInfo 객체
+     * 보고서 뷰어 페이지에서 본문과 첨부 문서의 접수번호, 문서번호 목록 추출
+     * 본문은 다운로드 버튼, 첨부 문서는 첨부선택 목록(select#att)과 목차 트리(node['dcmNo'])에서 찾습니다.
+     * @param result 검색 결과 항목 (보고서 URL과 본문 제목)
+     * @returns 본문이 첫 번째인 문서 목록 (다운로드 버튼이 없으면 null)
      */
-    private async getPdfDownloadInfo(reportUrl: string): Promise<PdfDownloadInfo | null> {
+    private async getFilingDocuments(result: SearchResultItem, context: SourceContext): Promise<FilingDocument[] | null> {
+        const reportUrl = result.href;
         try {
-            const response = await axios.get(reportUrl, {
+            const response = await context.request(reportUrl, () => axios.get(reportUrl, {
                 headers: { "User-Agent": "Mozilla/5.0" }, // 요청을 일반 브라우저처럼 보이게 설정
-            });
+            }));
 
-            const $ = load(response.data);
+            const html: string = response.data;
+            const $ = load(html);
 
             // 다운로드 버튼에서 `onclick` 속성 추출
             const button = $("button.btnDown");
             const onclickAttr = button.attr("onclick");
 
             if (!onclickAttr) {
-                console.error("다운로드 버튼이 존재하지 않습니다.");
+                logger.error("다운로드 버튼이 존재하지 않습니다.");
                 return null;
             }
 
             // openPdfDownload('{rcpNo}', '{dcmNo}') 패턴 추출
             const match = /openPdfDownload\('(\d+)',\s*'(\d+)'\)/.exec(onclickAttr);
-
-            if (match && match.length === 3) {
-                const [_, rcpNo, dcmNo] = match;
-                return { rcpNo, dcmNo };
-            } else {
-                console.error("Failed to parse arguments for openPdfDownload");
+            if (!match) {
+                logger.error("Failed to parse arguments for openPdfDownload");
                 return null;
             }
+
+            const [, rcpNo, mainDcmNo] = match;
+            const documents = new Map<string, FilingDocument>();
+            documents.set(mainDcmNo, { rcpNo, dcmNo: mainDcmNo, title: result.reportName, role: "main" });
+
+            const addAttachment = (attachmentRcpNo: string, dcmNo: string, attachmentTitle: string) => {
+                if (!documents.has(dcmNo)) {
+                    documents.set(dcmNo, {
+                        rcpNo: attachmentRcpNo,
+                        dcmNo,
+                        title: attachmentTitle,
+                        role: AUDIT_REPORT_TITLE.test(attachmentTitle) ? "audit" : "attachment",
+                    });
+                }
+            };
+
+            // 첨부선택 목록: value에 rcpNo=...&dcmNo=... 포함 ("+첨부선택+" 항목은 제외)
+            $("select#att option").each((_, option) => {
+                const value = $(option).attr("value") ?? "";
+                const dcmNo = /dcmNo=(\d+)/.exec(value)?.[1];
+                if (dcmNo) {
+                    addAttachment(/rcpNo=(\d+)/.exec(value)?.[1] ?? rcpNo, dcmNo, $(option).text().replace(/\s+/g, " ").trim());
+                }
+            });
+
+            // 목차 트리 (본문 목차는 본문 dcmNo와 같음)
+            for (const node of parseViewerTree(html)) {
+                if (node.dcmNo) {
+                    addAttachment(node.rcpNo || rcpNo, node.dcmNo, (node.text ?? "").trim());
+                }
+            }
+
+            return Array.from(documents.values());
         } catch (error) {
-            console.error("Error occurred while loading the page:", error);
+            logger.error("Error occurred while loading the page", { error });
             return null;
         }
     }
@@ -200,14 +451,17 @@ class DartFetcher {
      * @param dcmNo 문서번호
      * @returns DownloadInfo 객체
      */
-    private async getDownloadInfo(rcpNo: string, dcmNo: string, fileType: "pdf"|"zip"): Promise<FileLink> {
+    private async getDownloadInfo(rcpNo: string, dcmNo: string, fileType: "pdf"|"zip", context: SourceContext): Promise<FileLink> {
         const downloadUrl = `${this.BASE_URL}/pdf/download/${fileType}.do?rcp_no=${rcpNo}&dcm_no=${dcmNo}`;
-        console.log(`Fetching download information from URL: ${downloadUrl}`);
+        logger.debug(`Fetching download information from URL: ${downloadUrl}`);
 
-        const response = await axios.get(downloadUrl, {
+        // 파일명은 헤더에서만 읽으므로 본문은 받지 않고 스트림을 바로 닫음 (HEAD 요청은 서버가 지원하지 않을 수 있음)
+        const response = await context.request(downloadUrl, () => axios.get(downloadUrl, {
             headers: { "User-Agent": "Mozilla/5.0" },
             maxRedirects: 10, // 허용 리디렉션 횟수를 기본보다 증가
-        });
+            responseType: "stream",
+        }));
+        response.data.destroy();
 
         // Extract filename from Content-Disposition header or use a default name
         const contentDisposition = response.headers["content-disposition"];
@@ -232,377 +486,349 @@ class DartFetcher {
         return { url: downloadUrl, filename: fileName };
     }
     
-    private saveFileLinksToJson(fileLinks: FileLink[]): void {
-        const folderPath = path.dirname(this.outputFilePath);
+    /**
+     * 검색 결과 항목의 보고서 페이지에서 본문과 첨부 문서의 다운로드 링크를 조회
+     * 본문 PDF를 받을 수 없으면 공시 전체 ZIP으로 대체하며, 파일은 접수번호_문서번호를 ID로 하는 정규 경로에 저장합니다.
+     * @param result 검색 결과 항목
+     * @returns 문서별 FileLink 목록 (조회 실패 시 빈 배열)
+     */
+    private async resolveFileLinks(result: SearchResultItem, context: SourceContext): Promise<FileLink[]> {
+        const documents = await this.getFilingDocuments(result, context);
+
+        if (!documents) {
+            logger.warn("Failed to retrieve download information", { url: result.href });
+            return [];
+        }
+
+        const filingRcpNo = result.rcpNo ?? documents[0].rcpNo;
+        const fileLinks: FileLink[] = [];
+        for (const document of documents) {
+            const fileTypes: ("pdf" | "zip")[] = document.role === "main" ? ["pdf", "zip"] : ["pdf"];
+            for (const fileType of fileTypes) {
+                try {
+                    const fileLink = await this.getDownloadInfo(document.rcpNo, document.dcmNo, fileType, context);
+                    const documentId = `${document.rcpNo}_${document.dcmNo}`;
+                    fileLinks.push({
+                        url: fileLink.url,
+                        filename: buildFilingPath({ receiveDate: result.receiveDate, rcpNo: filingRcpNo }, documentId, findExtension(fileLink.filename) || fileType),
+                        metadata: {
+                            rcpNo: filingRcpNo,
+                            documentId,
+                            originalFilename: fileLink.filename,
+                            document: { dcmNo: document.dcmNo, title: document.title, role: document.role },
+                        },
+                    });
+                    break;
+                } catch (error) {
+                    const errMessage = error instanceof Error ? error.message : String(error);
+                    logger.error(`${fileType.toUpperCase()} download info failed for ${document.title || document.dcmNo} (${document.role})`, { error: errMessage });
+                }
+            }
+        }
+        return fileLinks;
+    }
 
-        if (!fs.existsSync(folderPath)) {
-            fs.mkdirSync(folderPath, { recursive: true });
-            console.log(`Folder created at ${folderPath}`);
+    /**
+     * 수집 대상 기업마다 하나의 검색 목록을 만듦
+     * @param job 수집 요청 (companies 필수)
+     */
+    public async discoverListings(job: CrawlJob): Promise<Listing[]> {
+        if (job.companies.length === 0) {
+            throw new Error("DART fetch requires --companies-file or --company");
         }
+        this.saveMarkdown = job.viewerMarkdown ?? false;
+        this.saveFinancials = job.financialStatements ?? false;
+        this.filingFilter = job.filingFilter;
+        this.amendmentHistory = job.amendmentHistory ?? false;
+        this.matchesFilter = createFilingMatcher(job.filingFilter);
+
+        return job.companies.map(({ name }) => ({
+            name: `DART-${name}-공시자료`,
+            sourceConfig: { sourceName: DART_SOURCE_NAME, categoryId: name, categoryName: DART_CATEGORY_NAME },
+            startDate: job.startDate,
+            endDate: job.endDate,
+            query: name,
+            filters: job.filingFilter,
+        }));
+    }
 
-        const jsonLines = '[\n' + fileLinks.map(link => `  ${JSON.stringify(link)}`).join(',\n') + '\n]';
-        fs.writeFileSync(this.outputFilePath, jsonLines, 'utf8');
-        console.log(`File links saved to ${this.outputFilePath}`);
+    /**
+     * 검색 결과 한 페이지를 조회
+     * 페이지 정보 영역으로 마지막 페이지를 판단하며, 페이지 정보가 없으면 결과 수가 maxResults 미만일 때 종료합니다.
+     */
+    public async fetchPage(listing: Listing, page: number, context: SourceContext): Promise<PageResult<SearchResultItem>> {
+        const params: SearchParams = {
+            currentPage: page,
+            maxResults: this.MAX_RESULTS,
+            maxLinks: 10,
+            sort: "date",
+            series: "desc",
+            textCrpNm: listing.query,
+            startDate: formatCompactDate(listing.startDate),
+            endDate: formatCompactDate(listing.endDate),
+            publicType: this.filingFilter?.publicTypes ?? [],
+            finalReport: !this.amendmentHistory,
+        };
+
+        const htmlResponse = await this.search(params, context);
+        const pageItems = this.parseResults(htmlResponse);
+        const pageInfo = parsePageInfo(htmlResponse);
+        const matchedItems = new Set(this.filterExactMatches(listing, pageItems).filter(item => this.applyFilingFilter(item)));
+        const toRecord = (item: SearchResultItem) => ({ key: item.href, metadata: item, date: getFilingDate(item) });
+        const records = pageItems.filter(item => matchedItems.has(item)).map(toRecord);
+        // 제외한 공시도 상태 파일에 남겨 이어서 실행할 때 모호성 집계에 포함
+        const excluded = pageItems.filter(item => !matchedItems.has(item)).map(toRecord);
+        const excludedCount = excluded.length;
+
+        if (pageInfo) {
+            logger.debug(`Search page ${pageInfo.currentPage}/${pageInfo.totalPages}: ${pageItems.length} items`);
+            return { records, hasNextPage: pageInfo.currentPage < pageInfo.totalPages, totalCount: pageInfo.totalCount ?? undefined, excludedCount, excluded };
+        }
+
+        logger.debug(`Search page ${page}: ${pageItems.length} items (no paging info)`);
+        return { records, hasNextPage: pageItems.length >= params.maxResults, excludedCount, excluded };
     }
 
-    private saveSearchItemsToJson(searchItems: SearchResultItem[]): void {
-        const folderPath = path.dirname(this.outputFilePath);
+    /**
+     * 이전 실행에서 받은 검색 결과 페이지를 모호성 집계와 수집 대상 고유번호에 반영
+     * 수집한 공시를 먼저 넘겨 이전 실행에서 정한 고유번호가 그대로 유지되도록 합니다.
+     */
+    public restorePage(listing: Listing, records: DocumentRecord<SearchResultItem>[], excluded: DocumentRecord<SearchResultItem>[]): void {
+        this.filterExactMatches(listing, [...records, ...excluded].map(record => record.metadata));
+    }
 
-        if (!fs.existsSync(folderPath)) {
-            fs.mkdirSync(folderPath, { recursive: true });
-            console.log(`Folder created at ${folderPath}`);
+    /**
+     * 목록의 공시를 정정 체인으로 연결 (최종 보고서만 검색하면 대체된 원본은 비고의 "정" 표시로만 알 수 있음)
+     */
+    public linkRecords(records: DocumentRecord<SearchResultItem>[]): DocumentRecord<SearchResultItem>[] {
+        return linkRecordAmendments(records);
+    }
+
+    private applyFilingFilter(item: SearchResultItem): boolean {
+        const accepted = this.matchesFilter(item);
+        if (!accepted) {
+            logger.debug(`Excluding filing by report/submitter filter: ${item.reportName} (${item.submitter})`);
         }
+        return accepted;
+    }
 
-        const jsonData = JSON.stringify(searchItems, null, 2);
-        fs.writeFileSync(this.metaFilePath, jsonData, "utf8");
-        console.log(`Search items saved to ${this.metaFilePath}`);
+    /**
+     * 기업명 부분 일치로 함께 검색된 다른 회사의 공시를 제외
+     * 회사명이 검색한 기업명과 정확히 같은 항목만 남기고, 같은 이름의 회사가 여럿이면 목록에서 처음 수집한 고유번호의 공시만 남깁니다.
+     * 회사(고유번호)별 건수는 모호성 보고서용으로 집계합니다.
+     */
+    private filterExactMatches(listing: Listing, items: SearchResultItem[]): SearchResultItem[] {
+        const target = normalizeCompanyName(listing.query ?? "");
+        const issuers = this.issuers.get(listing.name) ?? new Map<string, IssuerSummary>();
+        this.issuers.set(listing.name, issuers);
+
+        return items.filter(item => {
+            const nameMatches = normalizeCompanyName(item.corpName) === target;
+            if (nameMatches && item.corpCode && !this.corpCodes.has(listing.name)) {
+                this.corpCodes.set(listing.name, item.corpCode);
+            }
+            // 고유번호를 읽지 못한 항목은 기업명만으로 판단
+            const corpCode = this.corpCodes.get(listing.name);
+            const accepted = nameMatches && (!item.corpCode || !corpCode || item.corpCode === corpCode);
+
+            const issuerKey = item.corpCode ?? item.corpName;
+            let issuer = issuers.get(issuerKey);
+            if (!issuer) {
+                issuer = { corpName: item.corpName, corpCode: item.corpCode ?? null, filings: new Set(), nameMatches, accepted };
+                issuers.set(issuerKey, issuer);
+                if (nameMatches && !accepted) {
+                    logger.warn(`Excluding filings of ${item.corpName} (${item.corpCode}): ${listing.query} is already collected as corp code ${corpCode}`);
+                }
+            }
+            issuer.filings.add(item.href);
+
+            if (!accepted) {
+                logger.debug(`Excluding filing of ${item.corpName} (searched ${listing.query}): ${item.reportName}`);
+            }
+            return accepted;
+        });
     }
 
-    private async askUserConfirmation(message: string): Promise<boolean> {
-        const rl = readline.createInterface({input: process.stdin, output: process.stdout});
-    
-        return new Promise(resolve => {
-            rl.question(message, answer => {
-                rl.close();
-                resolve(answer.trim().toLowerCase() === 'y');
+    /**
+     * 검색 기업명이 여러 회사와 일치한 경우를 모아 실행별 모호성 보고서로 저장
+     * 다른 회사의 공시는 수집에서 제외되었고, 같은 이름의 회사가 둘 이상이면 처음 수집한 회사만 수집되었으므로 확인이 필요합니다.
+     */
+    public async finish(job: CrawlJob): Promise<void> {
+        const ambiguous = Array.from(this.issuers.entries())
+            .filter(([, issuers]) => issuers.size > 1)
+            .map(([listingName, issuers]) => {
+                const summaries = Array.from(issuers.values());
+                return {
+                    listing: listingName,
+                    // 정확히 같은 이름의 회사가 둘 이상이면 고유번호로 구분해야 함
+                    sameNameIssuers: summaries.filter(issuer => issuer.nameMatches).length > 1,
+                    issuers: summaries.map(issuer => ({ ...issuer, filings: issuer.filings.size })),
+                };
             });
-        });
+        this.issuers.clear();
+        this.corpCodes.clear();
+
+        if (ambiguous.length === 0) {
+            return;
+        }
+
+        if (!fs.existsSync("./downloads")) {
+            fs.mkdirSync("./downloads", { recursive: true });
+        }
+        const reportPath = `./downloads/DART-ambiguity-report-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+        const report = {
+            generatedAt: new Date().toISOString(),
+            startDate: formatCompactDate(job.startDate),
+            endDate: formatCompactDate(job.endDate),
+            companies: ambiguous,
+        };
+        fs.writeFileSync(reportPath, JSON.stringify(report, null, 2), "utf8");
+        logger.warn(`${ambiguous.length} company names matched multiple issuers. See ${reportPath}`);
     }
 
-    private async fetchAllFileLinks(params: SearchParams): Promise<FileLink[]> {
-        const existingFilePath = this.outputFilePath;
-        let fileLinks: FileLink[] = [];
+    public async resolveDownloads(record: DocumentRecord<SearchResultItem>, context: SourceContext): Promise<FileLink[]> {
+        return this.resolveFileLinks(record.metadata, context);
+    }
 
-        if (fs.existsSync(existingFilePath)) {
-            console.log(`Existing JSON file found: ${existingFilePath}`);
-            
-            const userChoice = await this.askUserConfirmation("A file with existing download links was found. Do you want to use it? (y = use existing, n = fetch new): ");
-    
-            if (userChoice) {
-                fileLinks = JSON.parse(fs.readFileSync(existingFilePath, 'utf8'));
-                console.log(`Loaded ${fileLinks.length} file links from ${existingFilePath}`);
-                return fileLinks;
-            } else {
-                console.log("Fetching new download links...");
-            }
+    private async fetchViewerHtml(url: string, context: SourceContext): Promise<string> {
+        const response = await context.request(url, () => axios.get(url, {
+            responseType: "arraybuffer",
+            headers: { "User-Agent": "Mozilla/5.0" },
+        }));
+        return decodeHtml(Buffer.from(response.data), String(response.headers["content-type"] ?? ""));
+    }
+
+    /**
+     * 문서의 뷰어 목차 구간 HTML을 차례로 받음
+     * @param filter 받을 구간의 목차 제목 조건 (없으면 모든 구간)
+     */
+    private async fetchViewerSections(rcpNo: string, dcmNo: string, context: SourceContext, filter?: (title: string) => boolean): Promise<ViewerSection[]> {
+        const mainUrl = `${this.BASE_URL}/dsaf001/main.do?rcpNo=${rcpNo}&dcmNo=${dcmNo}`;
+        const nodes = parseViewerTree(await this.fetchViewerHtml(mainUrl, context))
+            .filter(node => node.dcmNo === dcmNo && node.eleId !== undefined)
+            .filter(node => !filter || filter((node.text ?? "").trim()));
+
+        const sections: ViewerSection[] = [];
+        for (const node of nodes) {
+            const query = new URLSearchParams({
+                rcpNo: node.rcpNo || rcpNo,
+                dcmNo,
+                eleId: node.eleId ?? "",
+                offset: node.offset ?? "",
+                length: node.length ?? "",
+                dtd: node.dtd ?? "",
+            });
+            sections.push({ title: (node.text ?? "").trim(), html: await this.fetchViewerHtml(`${this.BASE_URL}/report/viewer.do?${query}`, context) });
         }
+        return sections;
+    }
 
-        // 검색 요청
-        const htmlResponse = await this.search(params);
-        console.log("Search completed.");
+    /**
+     * 문서의 뷰어 목차 구간을 차례로 받아 하나의 Markdown으로 변환 (구간 제목은 ## 제목으로 추가)
+     * @returns Markdown 본문 (목차 구간이 없으면 null)
+     */
+    private async fetchViewerMarkdown(rcpNo: string, dcmNo: string, context: SourceContext): Promise<string | null> {
+        const sections = await this.fetchViewerSections(rcpNo, dcmNo, context);
+        if (sections.length === 0) {
+            return null;
+        }
 
-        // HTML 결과 파싱
-        const searchItems = this.parseResults(htmlResponse);
-        console.log("search items:", searchItems);
-        this.saveSearchItemsToJson(searchItems);
+        return sections.map(({ title, html }) => {
+            const [firstBlock, ...blocks] = htmlToMarkdown(html).split("\n\n");
+            // 구간 본문 첫 문단이 목차 제목과 같으면 제목 문단을 ## 제목으로 바꿈
+            const body = title && firstBlock.replace(/[#*]/g, "").trim() === title ? blocks : [firstBlock, ...blocks];
+            return [title ? `## ${title}` : "", ...body].filter(block => block.length > 0).join("\n\n");
+        }).join("\n\n");
+    }
 
-        for (const result of searchItems) {
-            const reportUrl = result.href;
-            const pdfDownloadInfo = await this.getPdfDownloadInfo(reportUrl);
+    /**
+     * 받은 문서 옆에 같은 이름의 .md 파일로 뷰어 Markdown을 저장 (앞부분에 문서 메타데이터 기록)
+     * 실패해도 수집은 계속하도록 오류는 기록만 합니다.
+     */
+    private async saveViewerMarkdown(document: DownloadedDocument, context: SourceContext): Promise<Pick<SearchResultItem, "markdown"> | undefined> {
+        const item = document.metadata as SearchResultItem | undefined;
+        if (!item?.rcpNo || !item.document) {
+            return undefined;
+        }
+        if (item.markdown && fs.existsSync(item.markdown)) {
+            return undefined;
+        }
+        const parsed = path.parse(path.join(document.folder, document.fileLink.filename));
+        const markdownPath = path.join(parsed.dir, `${parsed.name}.md`);
 
-            if (pdfDownloadInfo) {
-                try {
-                    const fileLink = await this.getDownloadInfo(pdfDownloadInfo.rcpNo, pdfDownloadInfo.dcmNo, "pdf");
-                    fileLinks.push({
-                        url: fileLink.url,
-                        filename: fileLink.filename,
-                    });
-                } catch (error) {
-                    try {
-                        const fileLink = await this.getDownloadInfo(pdfDownloadInfo.rcpNo, pdfDownloadInfo.dcmNo, "zip");
-                        fileLinks.push({
-                            url: fileLink.url,
-                            filename: fileLink.filename,
-                        });
-                    } catch (zipError) {
-                        const zipErrMessage = zipError instanceof Error ? zipError.message : String(zipError);
-                        console.error("ZIP download info also failed:", zipErrMessage);
-                    }
-                }
-            } else {
-                console.log("Failed to retrieve download information for:", reportUrl);
+        try {
+            const markdown = await this.fetchViewerMarkdown(item.rcpNo, item.document.dcmNo, context);
+            if (markdown === null) {
+                logger.debug(`No viewer sections found for ${document.fileLink.filename}`);
+                return undefined;
             }
-        }
 
-        this.saveFileLinksToJson(fileLinks);
-        return fileLinks;
+            const frontMatter = {
+                corpName: item.corpName,
+                reportName: item.reportName,
+                receiveDate: item.receiveDate,
+                rcpNo: item.rcpNo,
+                dcmNo: item.document.dcmNo,
+                title: item.document.title,
+                role: item.document.role,
+                href: item.href,
+            };
+            const header = Object.entries(frontMatter).map(([key, value]) => `${key}: ${JSON.stringify(value ?? null)}`);
+            fs.writeFileSync(markdownPath, ["---", ...header, "---", "", markdown, ""].join("\n"), "utf8");
+            logger.debug(`Saved viewer Markdown to ${markdownPath}`);
+            return { markdown: markdownPath };
+        } catch (error) {
+            const errMessage = error instanceof Error ? error.message : String(error);
+            logger.error(`Failed to convert viewer HTML for ${document.fileLink.filename}`, { error: errMessage });
+            return undefined;
+        }
     }
 
     /**
-     * 전체 프로세스를 실행하며, 먼저 FileLink[] 배열을 생성한 후 다운로드 수행
-     * @param params 검색 조건
-     * @param saveDir 파일 저장 디렉토리
+     * 정기보고서 본문의 재무제표 구간에서 재무상태표, 손익계산서, 현금흐름표 값을 추출하여 문서 옆에 -financials.json/.csv로 저장
+     * 실패해도 수집은 계속하도록 오류는 기록만 합니다.
      */
-    public async fetchAndDownloadFileLinks(params: SearchParams): Promise<void> {
+    private async saveFinancialStatements(document: DownloadedDocument, context: SourceContext): Promise<Pick<SearchResultItem, "financials"> | undefined> {
+        const item = document.metadata as SearchResultItem | undefined;
+        if (!item?.rcpNo || item.document?.role !== "main" || !PERIODIC_REPORT_NAME.test(item.reportName)) {
+            return undefined;
+        }
+        if (item.financials && fs.existsSync(item.financials.json)) {
+            return undefined;
+        }
+        const parsed = path.parse(path.join(document.folder, document.fileLink.filename));
+        const basePath = path.join(parsed.dir, `${parsed.name}-financials`);
+
         try {
-            const dateRange = `${params.startDate}-${params.endDate}`;
-            this.metaFilePath = `./downloads/${this.sourceConfig.sourceName}-${this.sourceConfig.categoryId}-${this.sourceConfig.categoryName}-${dateRange}-meta.json`;
-            this.outputFilePath = `./downloads/${this.sourceConfig.sourceName}-${this.sourceConfig.categoryId}-${this.sourceConfig.categoryName}-${dateRange}.json`;
-            this.downloadFolderPath = `./downloads/${this.sourceConfig.sourceName}-${this.sourceConfig.categoryId}-${this.sourceConfig.categoryName}-${dateRange}`;
-    
-            const fileLinks = await this.fetchAllFileLinks(params);
-            console.log(`\n${fileLinks.length} file links found: `, fileLinks);
+            const filing = { rcpNo: item.rcpNo, corpName: item.corpName, corpCode: item.corpCode, stockCode: item.stockCode };
+            const sections = await this.fetchViewerSections(item.rcpNo, item.document.dcmNo, context, isFinancialStatementSection);
+            const items = sections.flatMap(section => extractFinancialStatements(section.html, filing, section.title));
+            if (items.length === 0) {
+                logger.debug(`No financial statement tables found for ${document.fileLink.filename}`);
+                return undefined;
+            }
 
-            const downloader = new FileDownloader(this.downloadFolderPath, this.downloadMinDelayMs, this.downloadMaxDelayMs);
-            await downloader.confirmAndDownloadFiles(fileLinks);
+            const financials = { json: `${basePath}.json`, csv: `${basePath}.csv`, items: items.length };
+            fs.writeFileSync(financials.json, JSON.stringify({ ...filing, reportName: item.reportName, items }, null, 2), "utf8");
+            fs.writeFileSync(financials.csv, toFinancialCsv(items), "utf8");
+            logger.debug(`Saved ${items.length} financial statement values to ${financials.json}`);
+            return { financials };
         } catch (error) {
-            console.error("Error during processDownloads:", error);
+            const errMessage = error instanceof Error ? error.message : String(error);
+            logger.error(`Failed to extract financial statements for ${document.fileLink.filename}`, { error: errMessage });
+            return undefined;
         }
     }
-}
 
-(async () => {
-    const kosdaqList: string[] = [
-        "쓰리빌리언",
-        "닷밀",
-        "노머스",
-        "에어레인",
-        "토모큐브",
-        "에이치이엠파마",
-        "탑런토탈솔루션",
-        "에이럭스",
-        "성우",
-        "유진스팩11호",
-        "클로봇",
-        "에이치엔에스하이텍",
-        "웨이비스",
-        "씨메스",
-        "한켐",
-        "루미르",
-        "와이제이링크",
-        "인스피언",
-        "셀비온",
-        "제닉스",
-        "KB제30호스팩",
-        "아이언디바이스",
-        "미래에셋비전스팩7호",
-        "아이스크림미디어",
-        "이엔셀",
-        "M83",
-        "대신밸런스제18호스팩",
-        "티디에스팜",
-        "넥스트바이오메디컬",
-        "케이쓰리아이",
-        "유라클",
-        "교보16호스팩",
-        "뱅크웨어글로벌",
-        "아이빔테크놀로지",
-        "피앤에스미캐닉스",
-        "엔에이치스팩31호",
-        "SK증권제13호스팩",
-        "엑셀세라퓨틱스",
-        "이베스트스팩6호",
-        "하스",
-        "이노스페이스",
-        "에이치브이엠",
-        "하이젠알앤엠",
-        "한국제15호스팩",
-        "에스오에스랩",
-        "한중엔시에스",
-        "에이치엠씨제7호스팩",
-        "미래에셋비전스팩6호",
-        "KB제29호스팩",
-        "씨어스테크놀로지",
-        "미래에셋비전스팩5호",
-        "한국제14호스팩",
-        "디비금융스팩12호",
-        "라메디텍",
-        "그리드위즈",
-        "미래에셋비전스팩4호",
-        "노브랜드",
-        "아이씨티케이",
-        "KB제28호스팩",
-        "코칩",
-        "SK증권제12호스팩",
-        "민테크",
-        "디앤디파마텍",
-        "유안타제16호스팩",
-        "제일엠앤에스",
-        "하나33호스팩",
-        "신한제13호스팩",
-        "신한제12호스팩",
-        "아이엠비디엑스",
-        "하나32호스팩",
-        "엔젤로보틱스",
-        "삼현",
-        "오상헬스케어",
-        "케이엔알시스템",
-        "하나31호스팩",
-        "비엔케이제2호스팩",
-        "SK증권제11호스팩",
-        "유진스팩10호",
-        "유안타제15호스팩",
-        "코셈",
-        "이에이트",
-        "케이웨더",
-        "스튜디오삼익",
-        "신영스팩10호",
-        "폰드그룹",
-        "이닉스",
-        "IBKS제24호스팩",
-        "포스뱅크",
-        "현대힘스",
-        "HB인베스트먼트",
-        "우진엔텍",
-        "대신밸런스제17호스팩",
-        "IBKS제23호스팩",
-        "하나30호스팩",
-        "블루엠텍",
-        "LS머트리얼즈",
-        "케이엔에스",
-        "와이바이오로직스",
-        "교보15호스팩",
-        "삼성스팩9호",
-        "에이텀",
-        "엔에이치스팩30호",
-        "에이에스텍",
-        "그린리소스",
-        "한선엔지니어링",
-        "에코아이",
-        "스톰테크",
-        "캡스톤파트너스",
-        "에스와이스틸텍",
-        "에이직랜드",
-        "한국제13호스팩",
-        "큐로셀",
-        "비아이매트릭스",
-        "메가터치",
-        "컨텍",
-        "쏘닉스",
-        "KB제27호스팩",
-        "유투바이오",
-        "유진테크놀로지",
-        "퀄리타스반도체",
-        "워트",
-        "에스엘에스바이오",
-        "신성에스티",
-        "퓨릿",
-        "에이치엠씨제6호스팩",
-        "아이엠티",
-        "레뷰코퍼레이션",
-        "한싹",
-        "신한제11호스팩",
-        "밀리의서재",
-        "인스웨이브시스템즈",
-        "상상인제4호스팩",
-        "한화플러스제4호스팩",
-        "대신밸런스제16호스팩",
-        "유안타제11호스팩",
-        "대신밸런스제15호스팩",
-        "한국제12호스팩",
-        "시큐레터",
-        "스마트레이더시스템",
-        "빅텐츠",
-        "SK증권제10호스팩",
-        "큐리옥스바이오시스템즈",
-        "코츠테크놀로지",
-        "하나28호스팩",
-        "KB제26호스팩",
-        "파두",
-        "엠아이큐브솔루션",
-        "시지트로닉스",
-        "에이엘티",
-        "파로스아이바이오",
-        "유안타제14호스팩",
-        "버넥트",
-        "뷰티스킨",
-        "SK증권제9호스팩",
-        "와이랩",
-        "센서뷰",
-        "필에너지",
-        "DB금융스팩11호",
-        "이노시뮬레이션",
-        "교보14호스팩",
-        "알멕",
-        "오픈놀",
-        "시큐센",
-        "하나29호스팩",
-        "엔에이치스팩29호",
-        "KB제25호스팩",
-        "하이제8호스팩",
-        "프로테옴텍",
-        "큐라티스",
-        "마녀공장",
-        "나라셀라",
-        "진영",
-        "기가비스",
-        "씨유박스",
-        "모니터랩",
-        "트루엔",
-        "키움제8호스팩",
-        "에스바이오메딕스",
-        "토마토시스템",
-        "마이크로투나노",
-        "미래에셋비전스팩3호",
-        "하나27호스팩",
-        "IBKS제22호스팩",
-        "지아이이노베이션",
-        "LB인베스트먼트",
-        "유안타제12호스팩",
-        "미래에셋드림스팩1호",
-        "금양그린파워",
-        "엔에이치스팩28호",
-        "자람테크놀로지",
-        "하나26호스팩",
-        "나노팀",
-        "바이오인프라",
-        "삼성스팩8호",
-        "유안타제13호스팩",
-        "미래에셋비전스팩2호",
-        "이노진",
-        "제이오",
-        "샌즈랩",
-        "꿈비",
-        "스튜디오미르",
-        "삼기이브이",
-        "오브젠",
-        "미래반도체",
-        "한주라이트메탈",
-        "티이엠씨",
-        "신영스팩9호",
-        "비엔케이제1호스팩",
-        "엔에이치스팩27호",
-        "IBKS제21호스팩",
-        "SAMG엔터",
-        "대신밸런스제14호스팩",
-        "엔에이치스팩26호",
-        "유진스팩9호",
-        "대신밸런스제13호스팩",
-        "펨트론",
-        "인벤티지랩",
-        "유비온",
-        "엔젯",
-        "티쓰리",
-        "티에프이",
-        "윤성에프앤씨",
-    ];
-
-    const START_INDEX = 0;
-    const END_INDEX = kosdaqList.length - 1;
-
-    for (let i = START_INDEX; i <= END_INDEX; i++) {
-        const searchParams: SearchParams = {
-            currentPage: 1,
-            maxResults: 15,
-            maxLinks: 10,
-            sort: "date",
-            series: "desc",
-            textCrpNm: kosdaqList[i],
-            startDate: "20220101",
-            endDate: "20240531",
-            publicType: [],
-            finalReport: true,
-        };
-    
-        const dartFetcher = new DartFetcher(
-            { sourceName: "DART", categoryId: `${searchParams.textCrpNm}`, categoryName: "공시자료" },
-            0,
-            3000
-        );
-    
-        await dartFetcher.fetchAndDownloadFileLinks(searchParams);
-    
-        console.log(`Index ${i}: ${kosdaqList[i]}의 파일 다운로드 완료`);
+    /**
+     * PDF 대신 ZIP으로 받은 공시는 접수번호 폴더에 압축을 풀고, 옵션에 따라 뷰어 Markdown과 재무제표 데이터를 저장
+     */
+    public async processDownload(document: DownloadedDocument, context: SourceContext): Promise<object | undefined> {
+        const archive = unpackFilingArchive(document);
+        const markdown = this.saveMarkdown ? await this.saveViewerMarkdown(document, context) : undefined;
+        const financials = this.saveFinancials ? await this.saveFinancialStatements(document, context) : undefined;
+        return archive || markdown || financials ? { ...archive, ...markdown, ...financials } : undefined;
     }
-    
-})();
\ No newline at end of file
+
+    public async close(): Promise<void> {}
+}
@@ -0,0 +1,239 @@
+import { load } from "cheerio";
+
+/** 재무제표 종류 (자본변동표는 추출하지 않음) */
+export type StatementType = "balanceSheet" | "incomeStatement" | "cashFlow";
+
+/**
+ * 재무제표 표의 계정 하나, 기간 하나의 값
+ */
+export interface FinancialStatementItem {
+    rcpNo: string;
+    corpName: string;
+    corpCode: string | null;
+    stockCode: string | null;
+    statement: StatementType;
+    /** 보고서에 표시된 재무제표 제목 (예: "연결 포괄손익계산서") */
+    statementTitle: string;
+    /** 연결재무제표 여부 (false: 별도/개별) */
+    consolidated: boolean;
+    account: string;
+    /** 표 머리글의 기간 (예: "제 55 기", "제 56 기 3분기 누적") */
+    period: string;
+    /** 기간 종료일 (YYYY-MM-DD, 제목 부분의 "제 N 기 ... 현재/까지"에서 찾지 못하면 null) */
+    periodEnd: string | null;
+    /** 원 단위로 환산한 값 */
+    value: number;
+    /** 보고서에 표시된 값 */
+    reportedValue: string;
+    /** 보고서에 표시된 단위 (예: "백만원") */
+    reportedUnit: string;
+}
+
+/** 재무제표 항목에 붙일 공시 정보 */
+export interface FilingKey {
+    rcpNo: string;
+    corpName: string;
+    corpCode?: string;
+    stockCode?: string;
+}
+
+/** 원 단위 환산 배수 */
+const UNIT_SCALES: Record<string, number> = {
+    "원": 1,
+    "천원": 1_000,
+    "백만원": 1_000_000,
+    "십억원": 1_000_000_000,
+    "억원": 100_000_000,
+};
+
+const STATEMENT_TITLES: [RegExp, StatementType | null][] = [
+    [/자본\s*변동\s*표/, null],
+    [/현금\s*흐름\s*표/, "cashFlow"],
+    [/(포괄\s*)?손익\s*계산서/, "incomeStatement"],
+    [/재무\s*상태\s*표|대차\s*대조\s*표/, "balanceSheet"],
+];
+
+/** 정기보고서(사업/반기/분기보고서) 보고서명 */
+export const PERIODIC_REPORT_NAME = /사업보고서|반기보고서|분기보고서/;
+
+/** 재무제표 본문이 있는 뷰어 목차 구간 (요약재무정보와 주석 제외) */
+export function isFinancialStatementSection(title: string): boolean {
+    return /재무제표/.test(title) && !/요약|주석/.test(title);
+}
+
+/**
+ * "(단위 : 백만원)" 형식의 단위 표기 추출
+ */
+export function parseUnit(text: string): string | null {
+    return /단위\s*[:：]?\s*(십억원|백만원|천원|억원|원)/.exec(text)?.[1] ?? null;
+}
+
+/**
+ * 표의 숫자 문자열을 숫자로 변환 ("(1,234)"와 "△1,234"는 음수, "-"와 빈 칸은 null)
+ */
+export function parseAmount(text: string): number | null {
+    const trimmed = text.replace(/\s+/g, "");
+    const match = /^(\(|△|▲|-)?([\d,]+(?:\.\d+)?)\)?$/.exec(trimmed);
+    if (!match) {
+        return null;
+    }
+    const value = parseFloat(match[2].replace(/,/g, ""));
+    return match[1] ? -value : value;
+}
+
+/**
+ * 표를 칸 단위 격자로 펼침 (colspan/rowspan으로 병합된 칸은 같은 내용을 반복)
+ */
+function tableGrid($: ReturnType<typeof load>, table: ReturnType<ReturnType<typeof load>>): string[][] {
+    const grid: string[][] = [];
+    const rows = table.find("tr").toArray().filter(tr => $(tr).closest("table").is(table));
+
+    rows.forEach((tr, rowIndex) => {
+        grid[rowIndex] = grid[rowIndex] ?? [];
+        let col = 0;
+        for (const cell of $(tr).children("th, td").toArray()) {
+            while (grid[rowIndex][col] !== undefined) {
+                col++;
+            }
+            const text = $(cell).text().replace(/\s+/g, " ").trim();
+            const colspan = Math.max(1, parseInt($(cell).attr("colspan") ?? "1") || 1);
+            const rowspan = Math.max(1, parseInt($(cell).attr("rowspan") ?? "1") || 1);
+            for (let r = rowIndex; r < rowIndex + rowspan && r < rows.length; r++) {
+                grid[r] = grid[r] ?? [];
+                for (let c = col; c < col + colspan; c++) {
+                    grid[r][c] = text;
+                }
+            }
+            col += colspan;
+        }
+    });
+    return grid.map(row => Array.from(row, cell => cell ?? ""));
+}
+
+/**
+ * 재무제표 구간 HTML에서 재무상태표, 손익계산서, 현금흐름표의 계정별 값을 추출
+ * 표 앞의 제목 부분(제목 표 또는 문단)에서 재무제표 종류, 단위, 기별 종료일을 읽고, 그 뒤의 숫자 표를 해당 재무제표로 해석합니다.
+ * @param html 뷰어 구간 HTML
+ * @param filing 항목에 붙일 공시 정보
+ * @param sectionTitle 뷰어 목차 제목 ("연결재무제표"이면 제목에 "연결"이 없어도 연결로 처리)
+ */
+export function extractFinancialStatements(html: string, filing: FilingKey, sectionTitle: string = ""): FinancialStatementItem[] {
+    const $ = load(html);
+    const items: FinancialStatementItem[] = [];
+    const sectionConsolidated = /연결/.test(sectionTitle);
+
+    let statement: StatementType | null = null;
+    let statementTitle = "";
+    let consolidated = sectionConsolidated;
+    let unit = "원";
+    const periodEnds = new Map<string, string>();
+
+    const readContext = (text: string) => {
+        const normalized = text.replace(/\s+/g, " ");
+        for (const [pattern, type] of STATEMENT_TITLES) {
+            const match = pattern.exec(normalized);
+            if (match) {
+                statement = type;
+                statementTitle = /연결\s*$/.test(normalized.slice(0, match.index)) ? `연결 ${match[0]}` : match[0];
+                consolidated = sectionConsolidated || /연결/.test(statementTitle);
+                break;
+            }
+        }
+        unit = parseUnit(normalized) ?? unit;
+        // "제 55 기 2023.12.31 현재", "제 55 기 2023.01.01 부터 2023.12.31 까지"
+        for (const match of normalized.matchAll(/제\s*(\d+)\s*기(?:\s*\d*\s*분기|\s*반기)?[^제]*?(\d{4})\s*[.\-년]\s*(\d{1,2})\s*[.\-월]\s*(\d{1,2})\s*일?\s*(?:현재|까지)/g)) {
+            periodEnds.set(match[1], `${match[2]}-${match[3].padStart(2, "0")}-${match[4].padStart(2, "0")}`);
+        }
+    };
+
+    const readTable = (table: ReturnType<typeof $>) => {
+        const grid = tableGrid($, table);
+        const isDataRow = (row: string[]) => row.slice(1).some(cell => parseAmount(cell) !== null);
+        const firstDataRow = grid.findIndex(isDataRow);
+        if (firstDataRow < 0 || grid[firstDataRow].length < 2) {
+            readContext(table.text());
+            return;
+        }
+        if (statement === null) {
+            return;
+        }
+
+        const headerRows = grid.slice(0, firstDataRow);
+        const width = Math.max(...grid.map(row => row.length));
+        const periods = Array.from({ length: width }, (_, col) => {
+            const labels = headerRows.map(row => row[col] ?? "").filter(label => label.length > 0);
+            return labels.filter((label, i) => label !== labels[i - 1]).join(" ");
+        });
+
+        for (const row of grid.slice(firstDataRow)) {
+            const account = row[0]?.trim();
+            if (!account) {
+                continue;
+            }
+            for (let col = 1; col < row.length; col++) {
+                // 주석 번호 열 제외
+                if (/^(주\s*석|note)/i.test(periods[col])) {
+                    continue;
+                }
+                const amount = parseAmount(row[col]);
+                if (amount === null) {
+                    continue;
+                }
+                const period = periods[col] || `열 ${col}`;
+                const periodNumber = /제\s*(\d+)\s*기/.exec(period)?.[1];
+                items.push({
+                    rcpNo: filing.rcpNo,
+                    corpName: filing.corpName,
+                    corpCode: filing.corpCode ?? null,
+                    stockCode: filing.stockCode ?? null,
+                    statement,
+                    statementTitle,
+                    consolidated,
+                    account,
+                    period,
+                    periodEnd: periodNumber ? periodEnds.get(periodNumber) ?? null : null,
+                    value: amount * (UNIT_SCALES[unit] ?? 1),
+                    reportedValue: row[col],
+                    reportedUnit: unit,
+                });
+            }
+        }
+    };
+
+    // 문서 순서대로 제목 부분과 표를 읽음 (표 안의 표는 바깥 표에 포함)
+    const walk = (selection: ReturnType<typeof $>) => {
+        for (const node of selection.contents().toArray()) {
+            const child = $(node);
+            if (node.type === "text") {
+                readContext(child.text());
+            } else if ("tagName" in node && !["script", "style"].includes(node.tagName.toLowerCase())) {
+                if (node.tagName.toLowerCase() === "table") {
+                    readTable(child);
+                } else if (child.find("table").length === 0) {
+                    readContext(child.text());
+                } else {
+                    walk(child);
+                }
+            }
+        }
+    };
+    walk($("body").length > 0 ? $("body") : $.root());
+
+    return items;
+}
+
+/**
+ * 재무제표 항목을 CSV로 변환 (UTF-8 BOM 포함, 엑셀에서 한글이 깨지지 않도록)
+ */
+export function toFinancialCsv(items: FinancialStatementItem[]): string {
+    const columns: (keyof FinancialStatementItem)[] = [
+        "rcpNo", "corpName", "corpCode", "stockCode", "statement", "statementTitle", "consolidated",
+        "account", "period", "periodEnd", "value", "reportedValue", "reportedUnit",
+    ];
+    const escape = (value: unknown) => {
+        const text = value === null || value === undefined ? "" : String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const lines = [columns.join(","), ...items.map(item => columns.map(column => escape(item[column])).join(","))];
+    return "\uFEFF" + lines.join("\n") + "\n";
+}
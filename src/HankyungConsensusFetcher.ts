@@ -1,33 +1,57 @@
-import { FileLinkFetcher } from './lib/FileLinkFetcher';
+import { FileLinkFetcher, getCellByHeader, ListRow, normalizeDate, parsePrice, PageLoadMode, PaginationStrategy, RowParser, splitCompanyFromTitle } from './lib/FileLinkFetcher';
+import { RateLimitConfig } from './lib/HostRateLimiter';
+import { SourceConfig } from './lib/SourceAdapter';
 
-// const SOURCE_CONFIG = {sourceName: "한경컨센서스", categoryId: "IN", categoryName: "산업분석"};
-const SOURCE_CONFIG = {sourceName: "한경컨센서스", categoryId: "CO", categoryName: "기업분석"};
-const BASE_URL = `https://consensus.hankyung.com/analysis/list?&sdate={searchStartYear}-{searchStartMonth}-{searchStartDay}&edate={searchEndYear}-{searchEndMonth}-{searchEndDay}&report_type=${SOURCE_CONFIG.categoryId}&pagenum={maxItemsPerPage}&order_type=&now_page={curPage}`;
-const START_DATE = { year: 2024, month: 1, day: 1 }
-const END_DATE = { year: 2024, month: 5, day: 31 }
+export const HANKYUNG_CATEGORIES: SourceConfig[] = [
+    {sourceName: "한경컨센서스", categoryId: "CO", categoryName: "기업분석"},
+    {sourceName: "한경컨센서스", categoryId: "IN", categoryName: "산업분석"},
+];
+const BASE_URL = `https://consensus.hankyung.com/analysis/list?&sdate={searchStartYear}-{searchStartMonth}-{searchStartDay}&edate={searchEndYear}-{searchEndMonth}-{searchEndDay}&report_type={categoryId}&pagenum={maxItemsPerPage}&order_type=&now_page={curPage}`;
 const START_PAGE = 1;
 const MAX_ITEMS_PER_PAGE = 80;
+/** 목록에 전체 건수나 커서가 없으므로 한 페이지 건수보다 적으면 마지막 페이지 */
+const PAGINATION: PaginationStrategy = { type: "pageSize" };
 const DOWNLOAD_PATTERN = /\/analysis\/downpdf\?[^"']*/;
+/** 다운로드 URL의 보고서 번호 (downpdf?report_idx=...) */
+const DOCUMENT_ID_PATTERN = /[?&]report_idx=(\d+)/;
+/**
+ * 한경 컨센서스 목록 행 파서
+ * 열 구성: 작성일 | 분류 | 제목 | 적정가격 | 투자의견 | 작성자 | 제공출처 | 기업정보 | 차트 | 첨부파일
+ * 기업분석 제목은 "기업명(종목코드) 보고서 제목" 형식입니다.
+ */
+export const parseHankyungRow: RowParser = (row: ListRow) => {
+    const titleCell = getCellByHeader(row, ["제목"]);
+    const title = titleCell?.linkText || titleCell?.text || null;
+    const { companyName, companyCode } = title ? splitCompanyFromTitle(title) : { companyName: null, companyCode: null };
+    const opinion = getCellByHeader(row, ["투자의견"])?.text;
 
-const fileLinkFetcher = new FileLinkFetcher(
-    BASE_URL,
-    SOURCE_CONFIG,
-    START_DATE,
-    END_DATE,
-    START_PAGE,
-    MAX_ITEMS_PER_PAGE,
-    DOWNLOAD_PATTERN,
-    0,
-    3000
-);
+    return {
+        reportDate: normalizeDate(getCellByHeader(row, ["작성일", "일자"])?.text),
+        title,
+        companyName,
+        companyCode,
+        broker: getCellByHeader(row, ["제공출처", "출처"])?.text || null,
+        analyst: getCellByHeader(row, ["작성자"])?.text || null,
+        opinion: opinion && opinion !== "-" ? opinion : null,
+        targetPrice: parsePrice(getCellByHeader(row, ["적정가격", "목표가"])?.text),
+    };
+};
 
-async function startDownloadProcess() {
-    try {
-        await fileLinkFetcher.fetchAndDownloadFileLinks();
-        console.log('Download process completed.');
-    } catch (error) {
-        console.error('Error during download process:', error);
-    }
-}
+/** 목록 페이지 로드 방식 (JavaScript 없이 정적 HTML로 목록이 제공됨) */
+export const HANKYUNG_PAGE_LOAD_MODE: PageLoadMode = "static";
+export const HANKYUNG_RATE_LIMIT: RateLimitConfig = { requestsPerSecond: 0.5, maxConcurrency: 2, jitterMs: 1000 };
 
-startDownloadProcess();
\ No newline at end of file
+export function createHankyungConsensusFetcher(): FileLinkFetcher {
+    return new FileLinkFetcher({
+        baseUrl: BASE_URL,
+        categories: HANKYUNG_CATEGORIES,
+        startPage: START_PAGE,
+        maxItemsPerPage: MAX_ITEMS_PER_PAGE,
+        pagination: PAGINATION,
+        downloadPattern: DOWNLOAD_PATTERN,
+        documentIdPattern: DOCUMENT_ID_PATTERN,
+        rowParser: parseHankyungRow,
+        pageLoadMode: HANKYUNG_PAGE_LOAD_MODE,
+        rateLimit: HANKYUNG_RATE_LIMIT,
+    });
+}
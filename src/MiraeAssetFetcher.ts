@@ -1,33 +1,58 @@
-import { FileLinkFetcher } from './lib/FileLinkFetcher';
+import { FileLinkFetcher, getCellByHeader, ListRow, normalizeDate, PageLoadMode, PaginationStrategy, RowParser, splitCompanyFromTitle } from './lib/FileLinkFetcher';
+import { RateLimitConfig } from './lib/HostRateLimiter';
+import { SourceConfig } from './lib/SourceAdapter';
 
-// const SOURCE_CONFIG = { sourceName: "미래에셋증권", categoryId: "1525", categoryName: "산업분석" };
-const SOURCE_CONFIG = {sourceName: "미래에셋증권", categoryId: "1800", categoryName: "기업분석"};
-const BASE_URL = `https://securities.miraeasset.com/bbs/board/message/list.do?categoryId={categoryId}&searchType=2&searchStartYear={searchStartYear}&searchStartMonth={searchStartMonth}&searchStartDay={searchStartDay}&searchEndYear={searchEndYear}&searchEndMonth={searchEndMonth}&searchEndDay={searchEndDay}&listType=1&startId=zzzzz~&startPage=1&curPage={curPage}&direction=1`;
-const START_DATE = { year: 2024, month: 1, day: 1 }
-const END_DATE = { year: 2024, month: 5, day: 31 }
+export const MIRAE_CATEGORIES: SourceConfig[] = [
+    {sourceName: "미래에셋증권", categoryId: "1800", categoryName: "기업분석"},
+    {sourceName: "미래에셋증권", categoryId: "1525", categoryName: "산업분석"},
+];
+const BASE_URL = `https://securities.miraeasset.com/bbs/board/message/list.do?categoryId={categoryId}&searchType=2&searchStartYear={searchStartYear}&searchStartMonth={searchStartMonth}&searchStartDay={searchStartDay}&searchEndYear={searchEndYear}&searchEndMonth={searchEndMonth}&searchEndDay={searchEndDay}&listType=1&startId={cursor}&startPage=1&curPage={curPage}&direction=1`;
 const START_PAGE = 1;
 const MAX_ITEMS_PER_PAGE = 10;
+/** 게시판이 페이지 링크의 startId(마지막 글 ID)로 다음 페이지를 찾으므로 다음 페이지 링크의 startId를 따라감 */
+const PAGINATION: PaginationStrategy = { type: "cursor", pageParam: "curPage", cursorParam: "startId", initialCursor: "zzzzz~" };
 const DOWNLOAD_PATTERN = /https?:\/\/[^\s"']+\.pdf(\?[^\s"']+)?/;
+/** 다운로드 URL의 첨부파일 번호 (없으면 URL 해시를 ID로 사용) */
+const DOCUMENT_ID_PATTERN = /[?&]attachmentId=(\d+)/;
+/**
+ * 미래에셋증권 리서치 게시판 목록 행 파서
+ * 열 구성: 작성일 | 제목 | 첨부 | 작성자 | 조회수
+ * 목록에는 투자의견과 목표주가가 없으므로 제목에 포함된 경우에만 추출합니다.
+ */
+export const parseMiraeAssetRow: RowParser = (row: ListRow) => {
+    const titleCell = getCellByHeader(row, ["제목"]);
+    const title = titleCell?.linkText || titleCell?.text || null;
+    const { companyName, companyCode } = title ? splitCompanyFromTitle(title) : { companyName: null, companyCode: null };
+    const opinionMatch = title ? /(?:^|[^A-Za-z가-힣])(Trading Buy|Strong Buy|Buy|Hold|Neutral|Sell|Reduce|매수|중립|매도)(?![A-Za-z가-힣])/i.exec(title) : null;
+    const targetPriceMatch = title ? /(?:목표주가|TP)\s*[:]?\s*([\d,]+)\s*원?/i.exec(title) : null;
 
-const fileLinkFetcher = new FileLinkFetcher(
-    BASE_URL,
-    SOURCE_CONFIG,
-    START_DATE,
-    END_DATE,
-    START_PAGE,
-    MAX_ITEMS_PER_PAGE,
-    DOWNLOAD_PATTERN,
-    0,
-    500
-);
+    return {
+        reportDate: normalizeDate(getCellByHeader(row, ["작성일", "등록일", "일자"])?.text),
+        title,
+        companyName,
+        companyCode,
+        broker: "미래에셋증권",
+        analyst: getCellByHeader(row, ["작성자", "애널리스트"])?.text || null,
+        opinion: opinionMatch ? opinionMatch[1] : null,
+        targetPrice: targetPriceMatch ? parseInt(targetPriceMatch[1].replace(/,/g, ""), 10) || null : null,
+    };
+};
 
-async function startDownloadProcess() {
-    try {
-        await fileLinkFetcher.fetchAndDownloadFileLinks();
-        console.log('Download process completed.');
-    } catch (error) {
-        console.error('Error during download process:', error);
-    }
-}
+/** 목록 페이지 로드 방식 (목록을 브라우저로 렌더링) */
+export const MIRAE_PAGE_LOAD_MODE: PageLoadMode = "browser";
+export const MIRAE_RATE_LIMIT: RateLimitConfig = { requestsPerSecond: 2, maxConcurrency: 2, jitterMs: 250 };
 
-startDownloadProcess();
\ No newline at end of file
+export function createMiraeAssetFetcher(): FileLinkFetcher {
+    return new FileLinkFetcher({
+        baseUrl: BASE_URL,
+        categories: MIRAE_CATEGORIES,
+        startPage: START_PAGE,
+        maxItemsPerPage: MAX_ITEMS_PER_PAGE,
+        pagination: PAGINATION,
+        downloadPattern: DOWNLOAD_PATTERN,
+        documentIdPattern: DOCUMENT_ID_PATTERN,
+        rowParser: parseMiraeAssetRow,
+        pageLoadMode: MIRAE_PAGE_LOAD_MODE,
+        rateLimit: MIRAE_RATE_LIMIT,
+    });
+}
@@ -0,0 +1,398 @@
+import * as fs from "fs";
+import * as path from "path";
+import axios from "axios";
+import { buildFilingPath, DART_CATEGORY_NAME, DART_SOURCE_NAME, getFilingDate, linkRecordAmendments, SearchResultItem, unpackFilingArchive } from "./DartFetcher";
+import { FileLink } from "./lib/FileDownloader";
+import { createFilingMatcher, findDisclosureGroup, FilingFilter } from "./lib/FilingFilter";
+import { RateLimitConfig } from "./lib/HostRateLimiter";
+import { logger } from "./lib/Logger";
+import { RetryableError } from "./lib/Retry";
+import { CrawlJob, DocumentRecord, DownloadedDocument, formatCompactDate, Listing, PageResult, SourceAdapter, SourceContext } from "./lib/SourceAdapter";
+import { ZipReader } from "./lib/ZipReader";
+
+/**
+ * OpenDART API 설정 (환경 변수에서 읽음)
+ * - OPENDART_API_KEY: 인증키 (필수)
+ * - OPENDART_BASE_URL: API 주소 (테스트용 모의 서버 등, 기본값: https://opendart.fss.or.kr)
+ * - OPENDART_CORP_CODE_CACHE: 고유번호 목록 캐시 파일 경로
+ */
+export interface OpenDartConfig {
+    apiKey: string;
+    baseUrl: string;
+    corpCodeCachePath: string;
+}
+
+/**
+ * corpCode.xml의 기업 고유번호 항목
+ */
+export interface CorpCodeEntry {
+    /** 고유번호 (8자리) */
+    corpCode: string;
+    corpName: string;
+    /** 종목코드 (상장사만, 6자리) */
+    stockCode: string | null;
+    /** 최종 변경일 (YYYYMMDD) */
+    modifyDate: string;
+}
+
+interface OpenDartStatus {
+    status: string;
+    message: string;
+}
+
+interface OpenDartListItem {
+    corp_code: string;
+    corp_name: string;
+    stock_code: string;
+    report_nm: string;
+    rcept_no: string;
+    flr_nm: string;
+    rcept_dt: string;
+    rm: string;
+}
+
+interface OpenDartListResponse extends OpenDartStatus {
+    page_no?: number;
+    total_count?: number;
+    total_page?: number;
+    list?: OpenDartListItem[];
+}
+
+export const OPENDART_BASE_URL = "https://opendart.fss.or.kr";
+/** OpenDART 요청 속도 제한 기본값 (API 호출 한도보다 충분히 낮게 설정) */
+export const OPENDART_RATE_LIMIT: RateLimitConfig = { requestsPerSecond: 2, maxConcurrency: 2, jitterMs: 250 };
+const DEFAULT_CORP_CODE_CACHE = "./downloads/opendart-corpcode.json";
+const CORP_CODE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const PAGE_COUNT = 100;
+/** 검색 결과 href는 웹 백엔드와 같은 공시 뷰어 주소를 사용 (두 백엔드의 문서 키가 같도록) */
+const DART_VIEWER_URL = "https://dart.fss.or.kr/dsaf001/main.do?rcpNo=";
+
+export function loadOpenDartConfig(env: NodeJS.ProcessEnv = process.env): OpenDartConfig {
+    const apiKey = env.OPENDART_API_KEY?.trim();
+    if (!apiKey) {
+        throw new Error("OPENDART_API_KEY is not set (issue an API key at https://opendart.fss.or.kr)");
+    }
+    return {
+        apiKey,
+        baseUrl: (env.OPENDART_BASE_URL || OPENDART_BASE_URL).replace(/\/+$/, ""),
+        corpCodeCachePath: env.OPENDART_CORP_CODE_CACHE || DEFAULT_CORP_CODE_CACHE,
+    };
+}
+
+/**
+ * OpenDART 응답 상태 코드 확인
+ * @returns 조회된 데이터가 없으면(013) false
+ */
+function checkStatus(response: OpenDartStatus): boolean {
+    if (response.status === "000") {
+        return true;
+    }
+    if (response.status === "013") {
+        return false;
+    }
+    if (response.status === "020" || response.status === "800") {
+        // 요청 제한 초과, 시스템 점검
+        throw new RetryableError(`OpenDART ${response.status}: ${response.message}`);
+    }
+    throw new Error(`OpenDART error ${response.status}: ${response.message}`);
+}
+
+/**
+ * corpCode.xml 파싱 (항목 수가 많아 DOM 대신 정규식으로 읽음)
+ */
+export function parseCorpCodeXml(xml: string): CorpCodeEntry[] {
+    const field = (block: string, name: string) => new RegExp(`<${name}>([^<]*)</${name}>`).exec(block)?.[1].trim() ?? "";
+    const entries: CorpCodeEntry[] = [];
+
+    for (const match of xml.matchAll(/<list>([\s\S]*?)<\/list>/g)) {
+        const corpCode = field(match[1], "corp_code");
+        if (corpCode) {
+            entries.push({
+                corpCode,
+                corpName: field(match[1], "corp_name"),
+                stockCode: field(match[1], "stock_code") || null,
+                modifyDate: field(match[1], "modify_date"),
+            });
+        }
+    }
+    return entries;
+}
+
+/**
+ * 기업명, 종목코드, 고유번호로 OpenDART 고유번호 항목을 찾는 색인
+ */
+export class CorpCodeIndex {
+    private byName = new Map<string, CorpCodeEntry[]>();
+    private byStockCode = new Map<string, CorpCodeEntry>();
+    private byCorpCode = new Map<string, CorpCodeEntry>();
+
+    constructor(public readonly entries: CorpCodeEntry[]) {
+        for (const entry of entries) {
+            const named = this.byName.get(entry.corpName) ?? [];
+            named.push(entry);
+            this.byName.set(entry.corpName, named);
+            this.byCorpCode.set(entry.corpCode, entry);
+            if (entry.stockCode) {
+                this.byStockCode.set(entry.stockCode, entry);
+            }
+        }
+    }
+
+    /**
+     * 8자리 숫자는 고유번호, 6자리는 종목코드, 그 외는 정확히 같은 기업명으로 조회
+     * 같은 이름의 법인이 여럿이면 상장사만 반환하고, 상장사가 없으면 모두 반환합니다.
+     */
+    public resolve(query: string): CorpCodeEntry[] {
+        const key = query.trim();
+        if (/^\d{8}$/.test(key)) {
+            const entry = this.byCorpCode.get(key);
+            return entry ? [entry] : [];
+        }
+        if (/^[A-Z0-9]{6}$/.test(key) && this.byStockCode.has(key)) {
+            return [this.byStockCode.get(key)!];
+        }
+
+        const named = this.byName.get(key) ?? [];
+        const listed = named.filter(entry => entry.stockCode);
+        return listed.length > 0 ? listed : named;
+    }
+}
+
+/**
+ * OpenDART REST API 기반 DART 공시 수집 어댑터
+ * 기업명 부분 일치 검색 대신 corpCode.xml로 확인한 고유번호로 공시 목록(list.json)을 조회하며,
+ * 결과는 웹 검색 백엔드(DartFetcher)와 같은 SearchResultItem / 목록 이름으로 저장합니다.
+ * 문서는 공시서류원본파일(document.xml, ZIP)로 받습니다.
+ */
+export class OpenDartFetcher implements SourceAdapter<SearchResultItem> {
+    public readonly rateLimit = OPENDART_RATE_LIMIT;
+    public readonly firstPage = 1;
+    private corpCodeIndex: Promise<CorpCodeIndex> | null = null;
+    /** list.json 공시유형 조건 (pblntf_ty 또는 pblntf_detail_ty) */
+    private typeQuery: Record<string, string> = {};
+    private matchesFilter = createFilingMatcher(undefined);
+    private amendmentHistory = false;
+
+    constructor(private config: OpenDartConfig = loadOpenDartConfig()) {}
+
+    private apiUrl(endpoint: string, params: Record<string, string> = {}): string {
+        const query = new URLSearchParams(params).toString();
+        return `${this.config.baseUrl}/api/${endpoint}${query ? `?${query}` : ""}`;
+    }
+
+    public authorizeUrl(url: string): string {
+        if (!url.startsWith(`${this.config.baseUrl}/`)) {
+            return url;
+        }
+        const authorized = new URL(url);
+        authorized.searchParams.set("crtfc_key", this.config.apiKey);
+        return authorized.href;
+    }
+
+    /**
+     * 공시유형 필터를 list.json 조건으로 변환
+     * list.json은 상세 유형 하나 또는 대분류 하나만 조회할 수 있으므로 그 밖의 조합은 dart 소스를 사용해야 합니다.
+     */
+    private toTypeQuery(filter: FilingFilter | undefined): Record<string, string> {
+        const codes = filter?.publicTypes ?? [];
+        if (codes.length === 0) {
+            return {};
+        }
+        if (codes.length === 1) {
+            return { pblntf_detail_ty: codes[0] };
+        }
+        const group = findDisclosureGroup(codes);
+        if (!group) {
+            throw new Error(`OpenDART can filter by one disclosure type code or one whole category (got ${codes.join(", ")}); use the dart source for other combinations`);
+        }
+        return { pblntf_ty: group };
+    }
+
+    private async downloadCorpCodes(context: SourceContext): Promise<CorpCodeEntry[]> {
+        const url = this.apiUrl("corpCode.xml");
+        logger.info(`Downloading OpenDART corp codes from ${url}`);
+        const data = await context.request(url, async () => {
+            const response = await axios.get(this.authorizeUrl(url), { responseType: "arraybuffer" });
+            const body = Buffer.from(response.data);
+            // 오류는 ZIP 대신 상태 코드가 담긴 XML/JSON으로 응답됨
+            if (body.subarray(0, 2).toString("latin1") !== "PK") {
+                const text = body.toString("utf8");
+                checkStatus({
+                    status: /<status>(\d+)<\/status>|"status"\s*:\s*"(\d+)"/.exec(text)?.slice(1).find(Boolean) ?? "900",
+                    message: /<message>([^<]*)<\/message>|"message"\s*:\s*"([^"]*)"/.exec(text)?.slice(1).find(Boolean) ?? text.slice(0, 200),
+                });
+            }
+            return body;
+        });
+
+        const zip = new ZipReader(data);
+        const xmlEntry = zip.entries.find(entry => /\.xml$/i.test(entry.name));
+        if (!xmlEntry) {
+            throw new Error("corpCode.xml archive does not contain an XML file");
+        }
+        return parseCorpCodeXml(zip.read(xmlEntry).toString("utf8"));
+    }
+
+    /**
+     * 고유번호 목록을 캐시에서 읽거나(7일 이내) 새로 받아 캐시에 저장
+     */
+    private async loadCorpCodeIndex(context: SourceContext): Promise<CorpCodeIndex> {
+        const cachePath = this.config.corpCodeCachePath;
+        if (fs.existsSync(cachePath) && Date.now() - fs.statSync(cachePath).mtimeMs < CORP_CODE_MAX_AGE_MS) {
+            const entries: CorpCodeEntry[] = JSON.parse(fs.readFileSync(cachePath, "utf8"));
+            logger.info(`Loaded ${entries.length} OpenDART corp codes from ${cachePath}`);
+            return new CorpCodeIndex(entries);
+        }
+
+        const entries = await this.downloadCorpCodes(context);
+        if (!fs.existsSync(path.dirname(cachePath))) {
+            fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+        }
+        fs.writeFileSync(cachePath, JSON.stringify(entries), "utf8");
+        logger.info(`Saved ${entries.length} OpenDART corp codes to ${cachePath}`);
+        return new CorpCodeIndex(entries);
+    }
+
+    public getCorpCodeIndex(context: SourceContext): Promise<CorpCodeIndex> {
+        if (!this.corpCodeIndex) {
+            this.corpCodeIndex = this.loadCorpCodeIndex(context);
+            this.corpCodeIndex.catch(() => { this.corpCodeIndex = null; });
+        }
+        return this.corpCodeIndex;
+    }
+
+    /**
+     * 수집 대상 기업을 고유번호로 확인하여 기업(고유번호)마다 하나의 목록을 만듦
+     * 기업명 대신 종목코드(6자리)나 고유번호(8자리)를 지정할 수 있으며, 고유번호를 찾지 못한 기업은 경고 후 건너뜁니다.
+     */
+    public async discoverListings(job: CrawlJob, context: SourceContext): Promise<Listing[]> {
+        if (job.companies.length === 0) {
+            throw new Error("DART fetch requires --companies-file or --company");
+        }
+
+        this.typeQuery = this.toTypeQuery(job.filingFilter);
+        this.matchesFilter = createFilingMatcher(job.filingFilter);
+        this.amendmentHistory = job.amendmentHistory ?? false;
+
+        const index = await this.getCorpCodeIndex(context);
+        const listings: Listing[] = [];
+        for (const company of job.companies) {
+            // 목록 파일에 종목코드가 있으면 기업명보다 종목코드를 우선 사용
+            const byTicker = company.ticker ? index.resolve(company.ticker) : [];
+            const matches = byTicker.length > 0 ? byTicker : index.resolve(company.name);
+            if (matches.length === 0) {
+                logger.warn(`No OpenDART corp_code found for ${company.name}, skipping`);
+                continue;
+            }
+            if (matches.length > 1) {
+                logger.warn(`${company.name} matches ${matches.length} corporations: ${matches.map(m => m.corpCode).join(", ")}`);
+            }
+
+            for (const match of matches) {
+                const label = matches.length > 1 ? `${match.corpName}(${match.stockCode ?? match.corpCode})` : match.corpName;
+                // 같은 기업의 dart 소스 목록과 상태/링크 파일, 증분 수집 기준점이 섞이지 않도록 목록 이름을 구분 (문서 저장 경로는 같음)
+                listings.push({
+                    name: `OpenDART-${label}-공시자료`,
+                    sourceConfig: { sourceName: DART_SOURCE_NAME, categoryId: label, categoryName: DART_CATEGORY_NAME },
+                    startDate: job.startDate,
+                    endDate: job.endDate,
+                    query: match.corpCode,
+                    filters: job.filingFilter,
+                });
+            }
+        }
+        return listings;
+    }
+
+    private toSearchResultItem(item: OpenDartListItem, number: number): SearchResultItem {
+        return {
+            number,
+            corpName: item.corp_name,
+            reportName: item.report_nm.replace(/\s+/g, " ").trim(),
+            submitter: item.flr_nm,
+            receiveDate: item.rcept_dt.replace(/^(\d{4})(\d{2})(\d{2})$/, "$1.$2.$3"),
+            remarks: item.rm?.trim() || "-",
+            href: DART_VIEWER_URL + item.rcept_no,
+            rcpNo: item.rcept_no,
+            corpCode: item.corp_code,
+            stockCode: item.stock_code?.trim() || undefined,
+        };
+    }
+
+    /**
+     * 공시검색(list.json) 한 페이지 조회 (최종보고서만)
+     */
+    public async fetchPage(listing: Listing, page: number, context: SourceContext): Promise<PageResult<SearchResultItem>> {
+        const url = this.apiUrl("list.json", {
+            corp_code: listing.query ?? "",
+            bgn_de: formatCompactDate(listing.startDate),
+            end_de: formatCompactDate(listing.endDate),
+            last_reprt_at: this.amendmentHistory ? "N" : "Y",
+            ...this.typeQuery,
+            page_no: page.toString(),
+            page_count: PAGE_COUNT.toString(),
+        });
+        const response = await context.request(url, async () => {
+            const result = await axios.get<OpenDartListResponse>(this.authorizeUrl(url));
+            // 상태 코드 오류(요청 제한 등)도 재시도 대상이 되도록 요청 작업 안에서 확인
+            return { data: result.data, found: checkStatus(result.data) };
+        });
+
+        if (!response.found) {
+            logger.debug(`OpenDART page ${page}: no filings`);
+            return { records: [], hasNextPage: false, totalCount: 0 };
+        }
+
+        const { data } = response;
+        const items = (data.list ?? []).map((item, i) => this.toSearchResultItem(item, (page - 1) * PAGE_COUNT + i + 1));
+        const records = items
+            .filter(item => {
+                const accepted = this.matchesFilter(item);
+                if (!accepted) {
+                    logger.debug(`Excluding filing by report/submitter filter: ${item.reportName} (${item.submitter})`);
+                }
+                return accepted;
+            })
+            .map(item => ({ key: item.href, metadata: item, date: getFilingDate(item) }));
+        logger.debug(`OpenDART page ${data.page_no ?? page}/${data.total_page ?? "?"}: ${items.length} items`);
+        return {
+            records,
+            hasNextPage: data.total_page !== undefined ? page < data.total_page : items.length >= PAGE_COUNT,
+            totalCount: data.total_count,
+            excludedCount: items.length - records.length,
+        };
+    }
+
+    /**
+     * 목록의 공시를 정정 체인으로 연결
+     */
+    public linkRecords(records: DocumentRecord<SearchResultItem>[]): DocumentRecord<SearchResultItem>[] {
+        return linkRecordAmendments(records);
+    }
+
+    /**
+     * 공시서류원본파일(document.xml) 링크. 인증키는 다운로드 직전에 authorizeUrl로 붙입니다.
+     * 원본파일은 공시 전체이므로 접수번호를 문서 ID로 씁니다.
+     */
+    public async resolveDownloads(record: DocumentRecord<SearchResultItem>): Promise<FileLink[]> {
+        const item = record.metadata;
+        if (!item.rcpNo) {
+            return [];
+        }
+        const originalFilename = `${item.corpName}_${item.reportName}_${item.rcpNo}.zip`.replace(/[<>:"/\\|?*]+/g, "_");
+        return [{
+            url: this.apiUrl("document.xml", { rcept_no: item.rcpNo }),
+            filename: buildFilingPath(item, item.rcpNo, "zip"),
+            metadata: { documentId: item.rcpNo, originalFilename },
+        }];
+    }
+
+    /**
+     * 원본파일 ZIP을 ZIP 파일 옆의 같은 이름 폴더에 풀고 내부 파일(본문, 첨부, XBRL 등)을 종류별로 기록
+     */
+    public async processDownload(document: DownloadedDocument): Promise<object | undefined> {
+        return unpackFilingArchive(document);
+    }
+
+    public async close(): Promise<void> {}
+}
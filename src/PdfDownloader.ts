@@ -1,6 +1,9 @@
 import axios from "axios";
 import * as fs from "fs";
 import * as path from "path";
+import { buildFilingPath } from "./DartFetcher";
+import { CORPUS_ROOT } from "./lib/DocumentPath";
+import { logger } from "./lib/Logger";
 
 class PdfDownloader {
     private readonly BASE_URL = "https://dart.fss.or.kr";
@@ -9,29 +12,23 @@ class PdfDownloader {
         const downloadUrl = `${this.BASE_URL}/pdf/download/pdf.do?rcp_no=${rcpNo}&dcm_no=${dcmNo}`;
         const response = await axios.get(downloadUrl, { responseType: "stream" });
 
-        // Extract filename from Content-Disposition header or use a default name
+        // 원래 파일명은 기록만 하고, 저장 경로는 접수번호_문서번호로 정함 (다시 받으면 같은 파일을 덮어씀)
         const contentDisposition = response.headers["content-disposition"];
-        const defaultFilename = `file_${rcpNo}.pdf`;
-        const filename = contentDisposition
-            ? contentDisposition.match(/filename\*=UTF-8''(.+)/)?.[1] || defaultFilename
-            : defaultFilename;
-
-        const filePath = path.join(saveDir, decodeURIComponent(filename));
-
-        // Handle file name conflicts
-        let uniqueFilePath = filePath;
-        let counter = 1;
-        while (fs.existsSync(uniqueFilePath)) {
-            uniqueFilePath = filePath.replace(/(\.pdf)$/, ` (${counter}).pdf`);
-            counter++;
+        const originalFilename = contentDisposition?.match(/filename\*=UTF-8''(.+)/)?.[1];
+        if (originalFilename) {
+            logger.info(`Original filename: ${decodeURIComponent(originalFilename)}`, { url: downloadUrl });
         }
 
+        // 접수일은 접수번호 앞 8자리에서 얻음
+        const filePath = path.join(saveDir, buildFilingPath({ receiveDate: "", rcpNo }, `${rcpNo}_${dcmNo}`, "pdf"));
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
         // Save the file
-        const writer = fs.createWriteStream(uniqueFilePath);
+        const writer = fs.createWriteStream(filePath);
         response.data.pipe(writer);
 
         return new Promise((resolve, reject) => {
-            writer.on("finish", () => resolve(uniqueFilePath));
+            writer.on("finish", () => resolve(filePath));
             writer.on("error", reject);
         });
     }
@@ -40,7 +37,7 @@ class PdfDownloader {
 // 사용 예시
 (async () => {
     const downloader = new PdfDownloader();
-    const saveDir = "./downloads"; // 다운로드를 저장할 디렉토리
+    const saveDir = CORPUS_ROOT; // 다운로드를 저장할 코퍼스 루트
     const rcpNo = "20240101000001"; // PDF의 rcpNo (예시)
     const dcmNo = "10000001"; // PDF의 dcmNo (예시)
 
@@ -50,8 +47,8 @@ class PdfDownloader {
         }
 
         const savedPath = await downloader.downloadPdf(rcpNo, dcmNo, saveDir);
-        console.log(`다운로드 완료: ${savedPath}`);
+        logger.info(`다운로드 완료: ${savedPath}`);
     } catch (error) {
-        console.error("다운로드 중 오류 발생:", error);
+        logger.error("다운로드 중 오류 발생", { error });
     }
 })();
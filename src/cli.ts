@@ -0,0 +1,386 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { KOSDAQCA_MEMBER_URL, KosdaqMemberListFetcher } from "./kosdaqca";
+import { sourceRegistry } from "./sources";
+import { CompanyEntry, DEFAULT_COMPANIES_FILE, readCompanyList, writeCompanyList } from "./lib/CompanyList";
+import { CrawlPipeline } from "./lib/CrawlPipeline";
+import { DownloadOptions } from "./lib/FileDownloader";
+import { quarantineFile, verifyDirectory } from "./lib/DocumentValidator";
+import { WINDOW_SIZES, WindowSize } from "./lib/DateWindows";
+import { buildFilingFilter, FilingFilter } from "./lib/FilingFilter";
+import { DUPLICATE_POLICIES, DuplicatePolicy, HASH_INDEX_FILENAME, HashIndex } from "./lib/HashIndex";
+import { HostRateLimiter, RateLimitConfig } from "./lib/HostRateLimiter";
+import { createTaskResult, JobTaskResult, loadJobFile, writeJobSummary } from "./lib/JobFile";
+import { configureLogging, LOG_FORMATS, LOG_LEVELS, LogFormat, LogLevel, logger } from "./lib/Logger";
+import { askUserConfirmation } from "./lib/Prompt";
+import { PAGE_LOAD_MODES, PageLoadMode } from "./lib/PageLoader";
+import { ProgressReporter } from "./lib/ProgressReporter";
+import { CrawlRunReport } from "./lib/RunReport";
+import { CrawlJob, parseSearchDate, today } from "./lib/SourceAdapter";
+import { DEFAULT_OVERLAP_DAYS } from "./lib/SyncWatermarks";
+
+const USAGE = `Usage: kofincorpus fetch <dart|opendart|hankyung|mirae>... --from YYYY-MM-DD --to YYYY-MM-DD [options]
+       kofincorpus sync <dart|opendart|hankyung|mirae>... --from YYYY-MM-DD [--to YYYY-MM-DD] [--overlap <days>] [options]
+       kofincorpus run <job-file.json|yaml> [-y] [--log-level <level>] [--log-format <format>] [--no-progress]
+       kofincorpus index [downloads-dir]
+       kofincorpus verify [downloads-dir]
+       kofincorpus companies [output-file]
+
+Commands:
+  fetch                     소스별 문서 수집 (여러 소스를 지정하면 병렬로 수집하며, 요청 속도는 호스트별로 따로 제한)
+                            소스마다 모든 문서의 결과와 오류를 실행 보고서(downloads/run-report-{소스}-{시각}.json)로 저장
+  sync                      증분 수집: 목록(소스, 카테고리, 기업)별 기준점 이후만 검색하고 새 문서를 기존 링크/메타데이터 파일에 추가
+                            (기준점은 downloads/sync-watermarks.json, 기준점이 없는 목록은 --from부터, --to 기본값: 오늘)
+  run                       작업 파일(JSON/YAML)에 정의한 여러 소스, 카테고리, 기간, 필터, 요청 속도 설정을 검사한 뒤 차례로 수집하고
+                            전체 결과를 실행 요약 파일(downloads/job-{이름}-summary-{시각}.json) 하나로 저장
+  index                     기존 다운로드 폴더의 문서를 해시하여 그 폴더의 코퍼스 해시 인덱스(hash-index.jsonl)에 등록 (기본값: ./downloads)
+  verify                    기존 다운로드 폴더의 문서를 다시 검사하여 HTML 오류 페이지, 빈 파일, 잘린 PDF/ZIP을 찾고 확인 후 격리 폴더(quarantine/)로 이동
+  companies                 코스닥협회 회원사 목록으로 DART 수집 대상 기업 목록 파일 생성 (기본값: ${DEFAULT_COMPANIES_FILE})
+
+Options:
+  --from <date>             검색 시작일 (YYYY-MM-DD 또는 YYYYMMDD)
+  --to <date>               검색 종료일 (YYYY-MM-DD 또는 YYYYMMDD)
+  --category <id|name>      수집 카테고리 (hankyung: CO|IN, mirae: 1800|1525, 기본값: 기업분석)
+  --companies-file <path>   DART 수집 대상 기업 목록 파일 (한 줄에 한 기업명, 기본값: ${DEFAULT_COMPANIES_FILE})
+  --company <name>          DART 수집 대상 기업명 (opendart는 종목코드/고유번호도 가능, 여러 번 지정 가능)
+  --start-index <n>         기업 목록에서 수집을 시작할 인덱스 (기본값: 0)
+  --rps <n>                 호스트별 초당 요청 수 (소수 허용, 기본값: 소스별 설정)
+  --concurrency <n>         호스트별 최대 동시 요청 수 (기본값: 소스별 설정)
+  --jitter <ms>             요청 간격에 더할 최대 랜덤 지연 시간 (기본값: 소스별 설정)
+  --window <unit>           검색 기간을 month | week | day 단위 구간으로 나눠 수집 (구간별 진행 상태를 저장하여 이어서 수집)
+  --window-cap <n>          한 구간의 검색 결과가 n건에 이르면 구간을 반으로 나눠 다시 검색 (소스의 검색 결과 상한)
+  --max-pages <n>           한 검색 구간에서 넘길 최대 페이지 수 (페이지 끝 판단 오류 대비 안전 장치, 기본값: 1000)
+  --overlap <days>          sync: 기준점 이전으로 겹쳐서 다시 검색하는 일 수 (늦게 등록되는 문서 대비, 기본값: ${DEFAULT_OVERLAP_DAYS})
+  --page-mode <mode>        목록 페이지 로드 방식: browser(Puppeteer) | static(axios + cheerio) (기본값: 소스별 설정)
+  --markdown                dart: 받은 문서마다 공시 뷰어 HTML을 Markdown(.md)으로 변환하여 옆에 저장
+  --financials              dart: 사업/반기/분기보고서의 재무상태표, 손익계산서, 현금흐름표 값을 JSON/CSV로 추출
+  --disclosure-type <type>  DART 공시유형 (정기공시, 주요사항보고, 사업보고서 등 이름, 대분류 A~J, 상세 코드 A001 등, 여러 번 지정 가능)
+  --include-report <re>     DART 보고서명이 정규식과 일치하는 공시만 수집 (대소문자 무시)
+  --exclude-report <re>     DART 보고서명이 정규식과 일치하는 공시 제외 (예: "스팩|기업인수목적")
+  --include-submitter <re>  DART 제출인이 정규식과 일치하는 공시만 수집
+  --exclude-submitter <re>  DART 제출인이 정규식과 일치하는 공시 제외
+  --all-versions            DART: 정정으로 대체된 이전 버전 공시도 수집 (기본값: 최종 보고서만, 정정 체인은 메타데이터에 기록)
+  --dedup <policy>          바이트가 동일한 문서 처리 방식: link(하드 링크) | skip(저장 안 함) | keep (기본값: link)
+  --log-level <level>       출력할 최소 로그 레벨: debug | info | warn | error (기본값: info, debug는 페이지/파일별 기록 포함)
+  --log-format <format>     로그 형식: text | json (json은 stdout에 한 줄에 이벤트 하나, 기본값: text)
+  --no-progress             진행 상황(페이지, 링크, 다운로드 결과, 바이트, 남은 시간) 표시 끄기
+                            (터미널에서는 마지막 줄에 계속 갱신, 그 외에는 15초마다 progress 이벤트 기록)
+  -y, --yes                 모든 확인 질문에 자동으로 'y' 응답 (비대화형 실행, 여러 소스 수집 시 필수)
+  -h, --help                도움말 출력`;
+
+/** 기업 목록으로 검색하는 소스 */
+const DART_SOURCES = ["dart", "opendart"];
+
+interface FetchOptions {
+    job: CrawlJob;
+    download: DownloadOptions;
+    rateLimitOverrides: Partial<RateLimitConfig>;
+}
+
+function parseNonNegativeInt(value: string | undefined, optionName: string): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new Error(`Invalid ${optionName}: ${value} (expected a non-negative integer)`);
+    }
+    return parsed;
+}
+
+function parsePositiveInt(value: string | undefined, optionName: string): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new Error(`Invalid ${optionName}: ${value} (expected an integer of at least 1)`);
+    }
+    return parsed;
+}
+
+function parsePositiveNumber(value: string | undefined, optionName: string): number | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+        throw new Error(`Invalid ${optionName}: ${value} (expected a positive number)`);
+    }
+    return parsed;
+}
+
+/**
+ * 공시 필터 옵션을 FilingFilter로 변환 (필터 옵션이 없으면 undefined, 잘못된 공시유형이나 정규식이면 오류)
+ */
+function parseFilingFilter(values: Record<string, string | string[] | boolean | undefined>): FilingFilter | undefined {
+    return buildFilingFilter({
+        disclosureTypes: (values["disclosure-type"] as string[] | undefined) ?? [],
+        includeReportName: values["include-report"] as string | undefined,
+        excludeReportName: values["exclude-report"] as string | undefined,
+        includeSubmitter: values["include-submitter"] as string | undefined,
+        excludeSubmitter: values["exclude-submitter"] as string | undefined,
+    });
+}
+
+/**
+ * 기업 목록이 없으면 DART 소스에 기본 기업 목록 파일을 사용
+ */
+function withDefaultCompanies(companies: CompanyEntry[], sourceNames: string[]): CompanyEntry[] {
+    const usesCompanies = sourceNames.some(name => DART_SOURCES.includes(name));
+    if (companies.length > 0 || !usesCompanies || !fs.existsSync(DEFAULT_COMPANIES_FILE)) {
+        return companies;
+    }
+    const defaults = readCompanyList(DEFAULT_COMPANIES_FILE);
+    logger.info(`Using ${defaults.length} companies from ${DEFAULT_COMPANIES_FILE}`);
+    return defaults;
+}
+
+async function fetchSource(sourceName: string, options: FetchOptions): Promise<{ report: CrawlRunReport, reportPath: string }> {
+    const adapter = sourceRegistry.create(sourceName);
+    const pipeline = new CrawlPipeline(sourceName, adapter, {
+        ...options.download,
+        rateLimit: { ...adapter.rateLimit, ...options.rateLimitOverrides },
+    });
+    return pipeline.run(options.job);
+}
+
+/**
+ * 실행 보고서에 수집을 마치지 못한 목록이 있으면 오류 (없으면 undefined)
+ */
+function getFailedListingsError(report: CrawlRunReport): Error | undefined {
+    if (report.failedListings.length === 0) {
+        return undefined;
+    }
+    return new Error(`Failed to collect ${report.failedListings.length} listing(s) of ${report.source}: ${report.failedListings.join(", ")}`);
+}
+
+/**
+ * 작업 파일의 수집 작업을 차례로 실행하고 실행 요약을 저장 (한 작업이 실패해도 다음 작업을 계속 실행)
+ * 모든 작업이 코퍼스 해시 인덱스를 공유하며, 요청 속도 제한기는 작업마다 새로 만들어 작업별 rateLimit 설정을 적용합니다.
+ * (호스트 설정은 처음 사용할 때 정해지므로 공유하면 같은 호스트를 쓰는 뒤 작업의 설정이 무시됨, 작업은 차례로 실행되므로 동시에 요청하지 않음)
+ */
+async function runJobFile(filePath: string, assumeYes: boolean, progress: ProgressReporter): Promise<void> {
+    const plan = loadJobFile(filePath, sourceRegistry);
+    const download: DownloadOptions = {
+        hashIndex: new HashIndex(),
+        duplicatePolicy: plan.dedup,
+        assumeYes: assumeYes || plan.assumeYes,
+        progress,
+    };
+    logger.info(`Running job ${plan.name} (${plan.mode}): ${plan.tasks.map(task => task.label).join(", ")}`, { job: plan.name });
+
+    const startedAt = new Date();
+    const results: JobTaskResult[] = [];
+    for (const [index, task] of plan.tasks.entries()) {
+        logger.info(`[${index + 1}/${plan.tasks.length}] ${task.label}`, { job: plan.name, task: task.label });
+        const taskStartedAt = new Date();
+        try {
+            const job = { ...task.job, companies: withDefaultCompanies(task.job.companies, [task.source]) };
+            const run = await fetchSource(task.source, { job, download: { ...download, rateLimiter: new HostRateLimiter() }, rateLimitOverrides: task.rateLimit });
+            const error = getFailedListingsError(run.report);
+            if (error) {
+                logger.error(`Task ${task.label} failed`, { job: plan.name, task: task.label, error });
+            }
+            results.push(createTaskResult(task, taskStartedAt, error, run));
+        } catch (error) {
+            logger.error(`Task ${task.label} failed`, { job: plan.name, task: task.label, error });
+            results.push(createTaskResult(task, taskStartedAt, error));
+        }
+    }
+    progress.finish();
+
+    const summaryPath = writeJobSummary(plan, results, startedAt);
+    const failed = results.filter(result => result.status === "failed");
+    logger.info(`Job ${plan.name} finished: ${results.length - failed.length} succeeded, ${failed.length} failed. Summary saved to ${summaryPath}`, { job: plan.name, summary: summaryPath });
+    if (failed.length > 0) {
+        throw new Error(`Failed tasks: ${failed.map(result => result.label).join(", ")}`);
+    }
+}
+
+async function main(argv: string[]): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            "from": { type: "string" },
+            "to": { type: "string" },
+            "category": { type: "string" },
+            "companies-file": { type: "string" },
+            "company": { type: "string", multiple: true },
+            "start-index": { type: "string" },
+            "rps": { type: "string" },
+            "concurrency": { type: "string" },
+            "jitter": { type: "string" },
+            "dedup": { type: "string", default: "link" },
+            "page-mode": { type: "string" },
+            "window": { type: "string" },
+            "window-cap": { type: "string" },
+            "max-pages": { type: "string" },
+            "overlap": { type: "string" },
+            "markdown": { type: "boolean", default: false },
+            "financials": { type: "boolean", default: false },
+            "disclosure-type": { type: "string", multiple: true },
+            "include-report": { type: "string" },
+            "exclude-report": { type: "string" },
+            "include-submitter": { type: "string" },
+            "exclude-submitter": { type: "string" },
+            "all-versions": { type: "boolean", default: false },
+            "log-level": { type: "string", default: "info" },
+            "log-format": { type: "string", default: "text" },
+            "no-progress": { type: "boolean", default: false },
+            "yes": { type: "boolean", short: "y", default: false },
+            "help": { type: "boolean", short: "h", default: false },
+        },
+    });
+
+    const [command, ...sourceNames] = positionals;
+    if (values.help || !command) {
+        console.log(USAGE);
+        return;
+    }
+    if (!LOG_LEVELS.includes(values["log-level"] as LogLevel)) {
+        throw new Error(`Invalid --log-level: ${values["log-level"]} (expected ${LOG_LEVELS.join(", ")})`);
+    }
+    if (!LOG_FORMATS.includes(values["log-format"] as LogFormat)) {
+        throw new Error(`Invalid --log-format: ${values["log-format"]} (expected ${LOG_FORMATS.join(", ")})`);
+    }
+    configureLogging({ level: values["log-level"] as LogLevel, format: values["log-format"] as LogFormat });
+    const progress = new ProgressReporter(!values["no-progress"]);
+
+    if (command === "run") {
+        if (!sourceNames[0]) {
+            throw new Error(`No job file given\n\n${USAGE}`);
+        }
+        await runJobFile(sourceNames[0], values.yes, progress);
+        return;
+    }
+    if (command === "index") {
+        const rootPath = sourceNames[0] ?? "./downloads";
+        // 인덱스 파일은 인덱싱한 폴더(코퍼스 루트) 안에 기록
+        const indexPath = path.join(rootPath, HASH_INDEX_FILENAME);
+        const count = await new HashIndex(indexPath).indexDirectory(rootPath);
+        logger.info(`Indexed ${count} new files under ${rootPath} into ${indexPath}`);
+        return;
+    }
+    if (command === "verify") {
+        const rootPath = sourceNames[0] ?? "./downloads";
+        const invalid = verifyDirectory(rootPath);
+        invalid.forEach(({ filePath, result }) => logger.warn(`Invalid document: ${filePath} (${result.reason})`, { path: filePath, reason: result.reason }));
+        if (invalid.length === 0) {
+            return;
+        }
+        if (!await askUserConfirmation(`Move ${invalid.length} invalid files to quarantine? (y/n): `, values.yes)) {
+            process.exitCode = 1;
+            return;
+        }
+        for (const { filePath, result } of invalid) {
+            quarantineFile(filePath, filePath, { reason: result.reason ?? "Invalid document", detectedType: result.detectedType }, rootPath);
+        }
+        logger.info(`Moved ${invalid.length} invalid files to ${rootPath}/quarantine; they will be downloaded again on the next fetch`);
+        return;
+    }
+    if (command === "companies") {
+        const outputPath = sourceNames[0] ?? DEFAULT_COMPANIES_FILE;
+        const companies = await new KosdaqMemberListFetcher().fetchAll();
+        if (companies.length === 0) {
+            throw new Error("No companies found on the member list; keeping the existing file");
+        }
+        writeCompanyList(outputPath, companies, [
+            `코스닥협회 회원사 목록 (${KOSDAQCA_MEMBER_URL.replace("&page={page}", "")})`,
+            `생성: ${new Date().toISOString()}`,
+            "형식: 기업명<TAB>상장일<TAB>종목코드 (상장일과 종목코드는 생략 가능), '#'으로 시작하는 줄은 무시됩니다.",
+        ]);
+        logger.info(`Saved ${companies.length} companies to ${outputPath}`);
+        return;
+    }
+    if (command !== "fetch" && command !== "sync") {
+        throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+    }
+    const sync = command === "sync";
+
+    if (sourceNames.length === 0) {
+        throw new Error(`No source given (available: ${sourceRegistry.getIds().join(", ")})`);
+    }
+    const unknownSources = sourceNames.filter(name => !sourceRegistry.has(name));
+    if (unknownSources.length > 0) {
+        throw new Error(`Unknown source: ${unknownSources.join(", ")} (available: ${sourceRegistry.getIds().join(", ")})`);
+    }
+    if (sourceNames.length > 1 && !values.yes) {
+        throw new Error("--yes is required when fetching multiple sources in parallel");
+    }
+    if (!values.from || (!values.to && !sync)) {
+        throw new Error(sync ? "--from is required (start date for listings without a sync watermark)" : "--from and --to are required");
+    }
+    if (values["page-mode"] !== undefined && !PAGE_LOAD_MODES.includes(values["page-mode"] as PageLoadMode)) {
+        throw new Error(`Invalid --page-mode: ${values["page-mode"]} (expected ${PAGE_LOAD_MODES.join(", ")})`);
+    }
+    if (values.window !== undefined && !WINDOW_SIZES.includes(values.window as WindowSize)) {
+        throw new Error(`Invalid --window: ${values.window} (expected ${WINDOW_SIZES.join(", ")})`);
+    }
+    if (!DUPLICATE_POLICIES.includes(values.dedup as DuplicatePolicy)) {
+        throw new Error(`Invalid --dedup: ${values.dedup} (expected ${DUPLICATE_POLICIES.join(", ")})`);
+    }
+
+    const companies = withDefaultCompanies([
+        ...(values["companies-file"] ? readCompanyList(values["companies-file"]) : []),
+        ...(values.company ?? []).map(name => ({ name, listingDate: null, ticker: null })),
+    ], sourceNames);
+
+    const options: FetchOptions = {
+        job: {
+            startDate: parseSearchDate(values.from, "--from"),
+            endDate: values.to ? parseSearchDate(values.to, "--to") : today(),
+            category: values.category,
+            companies,
+            pageLoadMode: values["page-mode"] as PageLoadMode | undefined,
+            startIndex: parseNonNegativeInt(values["start-index"], "--start-index") ?? 0,
+            viewerMarkdown: values.markdown,
+            financialStatements: values.financials,
+            filingFilter: parseFilingFilter(values),
+            amendmentHistory: values["all-versions"],
+            window: values.window as WindowSize | undefined,
+            windowCap: parsePositiveInt(values["window-cap"], "--window-cap"),
+            maxPages: parsePositiveInt(values["max-pages"], "--max-pages"),
+            sync,
+            overlapDays: parseNonNegativeInt(values.overlap, "--overlap"),
+        },
+        // 모든 소스가 rateLimiter와 hashIndex를 공유하므로 병렬 수집 중에도 호스트별 제한과 코퍼스 전체 중복 검사가 유지됨
+        download: {
+            rateLimiter: new HostRateLimiter(),
+            hashIndex: new HashIndex(),
+            duplicatePolicy: values.dedup as DuplicatePolicy,
+            assumeYes: values.yes,
+            progress,
+        },
+        rateLimitOverrides: {},
+    };
+
+    const requestsPerSecond = parsePositiveNumber(values.rps, "--rps");
+    const maxConcurrency = parsePositiveInt(values.concurrency, "--concurrency");
+    const jitterMs = parseNonNegativeInt(values.jitter, "--jitter");
+    if (requestsPerSecond !== undefined) options.rateLimitOverrides.requestsPerSecond = requestsPerSecond;
+    if (maxConcurrency !== undefined) options.rateLimitOverrides.maxConcurrency = maxConcurrency;
+    if (jitterMs !== undefined) options.rateLimitOverrides.jitterMs = jitterMs;
+
+    let runs: { report: CrawlRunReport, reportPath: string }[];
+    try {
+        runs = await Promise.all(sourceNames.map(name => fetchSource(name, options)));
+    } finally {
+        progress.finish();
+    }
+
+    const errors = runs.flatMap(run => getFailedListingsError(run.report) ?? []);
+    if (errors.length > 0) {
+        throw new Error(errors.map(error => error.message).join("\n"));
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).catch(error => {
+        logger.error(error instanceof Error ? error.message : String(error));
+        process.exitCode = 1;
+    });
+}
@@ -1,2 +1,118 @@
-// https://www.kosdaqca.or.kr/bbs/board.php?bo_table=member_tab1&page=1
+import axios from "axios";
+import { load } from "cheerio";
+import { CompanyEntry } from "./lib/CompanyList";
+import { DownloadOptions } from "./lib/FileDownloader";
+import { getCellByHeader, normalizeDate, splitCompanyFromTitle } from "./lib/FileLinkFetcher";
+import { HostRateLimiter, RateLimitConfig } from "./lib/HostRateLimiter";
+import { logger } from "./lib/Logger";
+import { decodeHtml, ListRow } from "./lib/PageLoader";
+import { DEFAULT_RETRY, withRetry } from "./lib/Retry";
 
+/** 코스닥협회 회원사 게시판 (한 페이지에 최근 상장 기업부터 표시) */
+export const KOSDAQCA_MEMBER_URL = "https://www.kosdaqca.or.kr/bbs/board.php?bo_table=member_tab1&page={page}";
+export const KOSDAQCA_RATE_LIMIT: RateLimitConfig = { requestsPerSecond: 1, maxConcurrency: 1, jitterMs: 500 };
+const MAX_PAGES = 500;
+
+/**
+ * 회원사 게시판 목록 HTML에서 기업 정보를 추출
+ * 열 순서가 바뀌어도 되도록 헤더 이름(회사명, 상장일, 종목코드)으로 열을 찾으며,
+ * 회사명 열이 없으면 게시물 제목 링크를 회사명으로 사용합니다.
+ */
+export function parseMemberList(html: string): CompanyEntry[] {
+    const $ = load(html);
+    const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+    const companies: CompanyEntry[] = [];
+
+    $("table").each((_, table) => {
+        const theadHeaders = $(table).find("thead th");
+        const headerCells = theadHeaders.length > 0 ? theadHeaders : $(table).find("tr").first().find("th");
+        const headers = headerCells.toArray().map(th => normalize($(th).text()));
+
+        $(table).find("tbody tr").each((_, tr) => {
+            const cells = $(tr).children("td");
+            const row: ListRow = {
+                headers,
+                cells: cells.toArray().map(td => ({ text: normalize($(td).text()), linkText: normalize($(td).find("a").first().text()) })),
+            };
+            // "게시물이 없습니다" 등 colspan 한 칸짜리 행 제외
+            if (row.cells.length < 2) {
+                return;
+            }
+
+            const nameCell = getCellByHeader(row, ["회사명", "기업명", "종목명", "회원사"]);
+            const subject = normalize($(tr).find(".td_subject a, td.subject a").first().text());
+            const rawName = nameCell?.linkText || nameCell?.text || subject;
+            if (!rawName) {
+                return;
+            }
+
+            const { companyName, companyCode } = splitCompanyFromTitle(rawName);
+            const tickerText = getCellByHeader(row, ["종목코드", "코드"])?.text ?? "";
+            companies.push({
+                name: companyName ?? rawName,
+                listingDate: normalizeDate(getCellByHeader(row, ["상장일", "상장일자"])?.text),
+                ticker: /\b([A-Z0-9]{6})\b/.exec(tickerText)?.[1] ?? companyCode,
+            });
+        });
+    });
+
+    return companies;
+}
+
+/**
+ * 코스닥협회 회원사 게시판을 끝까지 순회하여 기업 목록을 만듦 (DART 수집 대상 기업 목록 생성용)
+ */
+export class KosdaqMemberListFetcher {
+    private rateLimiter: HostRateLimiter;
+
+    constructor(
+        private downloadOptions: DownloadOptions = {},
+        private baseUrl: string = KOSDAQCA_MEMBER_URL
+    ) {
+        this.rateLimiter = this.downloadOptions.rateLimiter ?? new HostRateLimiter();
+    }
+
+    private async fetchPage(page: number): Promise<CompanyEntry[]> {
+        const pageUrl = this.baseUrl.replace("{page}", page.toString());
+        const response = await withRetry(() => this.rateLimiter.schedule(pageUrl, () => axios.get(pageUrl, {
+            responseType: "arraybuffer",
+            headers: { "User-Agent": "Mozilla/5.0" },
+        }), this.downloadOptions.rateLimit ?? KOSDAQCA_RATE_LIMIT), this.downloadOptions.retry ?? DEFAULT_RETRY, pageUrl);
+
+        return parseMemberList(decodeHtml(Buffer.from(response.data), String(response.headers["content-type"] ?? "")));
+    }
+
+    /**
+     * 빈 페이지나 이전과 같은 페이지가 나올 때까지 모든 페이지를 조회
+     * @returns 게시판 순서(최근 상장 순)의 기업 목록 (중복 기업명 제외)
+     */
+    public async fetchAll(): Promise<CompanyEntry[]> {
+        const companies: CompanyEntry[] = [];
+        const knownNames = new Set<string>();
+        let lastPageNames = "";
+
+        for (let page = 1; page <= MAX_PAGES; page++) {
+            const pageCompanies = await this.fetchPage(page);
+            const pageNames = pageCompanies.map(company => company.name).join("\n");
+            logger.debug(`Member list page ${page}: ${pageCompanies.length} companies`);
+
+            if (pageCompanies.length === 0) {
+                break;
+            }
+            if (pageNames === lastPageNames) {
+                logger.info(`Stopping fetch due to duplicate page detected at page ${page}`);
+                break;
+            }
+
+            for (const company of pageCompanies) {
+                if (!knownNames.has(company.name)) {
+                    knownNames.add(company.name);
+                    companies.push(company);
+                }
+            }
+            lastPageNames = pageNames;
+        }
+
+        return companies;
+    }
+}
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './Logger';
+import { ZipReader } from './ZipReader';
+
+/**
+ * 압축 파일 안의 문서 종류 (확장자 기준)
+ */
+export type ArchiveMemberType = 'pdf' | 'html' | 'xbrl' | 'xls' | 'xml' | 'other';
+
+export interface ArchiveMember {
+    /** 압축 파일 안의 경로 */
+    name: string;
+    /** 압축을 푼 파일 경로 */
+    path: string;
+    type: ArchiveMemberType;
+    size: number;
+}
+
+export interface ExtractedArchive {
+    /** 원본 압축 파일 경로 */
+    archive: string;
+    /** 압축을 푼 폴더 */
+    folder: string;
+    members: ArchiveMember[];
+}
+
+const MEMBER_TYPES: Record<string, ArchiveMemberType> = {
+    pdf: 'pdf',
+    htm: 'html',
+    html: 'html',
+    xbrl: 'xbrl',
+    xsd: 'xbrl',
+    xls: 'xls',
+    xlsx: 'xls',
+    xml: 'xml',
+};
+
+export function classifyArchiveMember(name: string): ArchiveMemberType {
+    return MEMBER_TYPES[path.extname(name).slice(1).toLowerCase()] ?? 'other';
+}
+
+/**
+ * 압축 파일 안의 경로를 대상 폴더 아래 경로로 변환 (zip-slip 방지)
+ * 절대 경로, 드라이브 문자, '..' 구간이 있거나 폴더 밖을 가리키면 null을 반환합니다.
+ */
+export function resolveArchivePath(targetFolder: string, entryName: string): string | null {
+    const segments = entryName.replace(/\\/g, '/').split('/').filter(segment => segment.length > 0 && segment !== '.');
+    if (entryName.startsWith('/') || entryName.startsWith('\\') || /^[A-Za-z]:/.test(entryName) || segments.includes('..') || segments.length === 0) {
+        return null;
+    }
+
+    const root = path.resolve(targetFolder);
+    const resolved = path.resolve(root, ...segments.map(segment => segment.replace(/[<>:"|?*\x00-\x1f]+/g, '_')));
+    return resolved.startsWith(root + path.sep) ? resolved : null;
+}
+
+/**
+ * ZIP 파일을 대상 폴더에 풀고 항목별 종류를 기록
+ * 폴더 밖을 가리키는 항목은 풀지 않고 경고만 남깁니다.
+ */
+export function extractZipArchive(archivePath: string, targetFolder: string): ExtractedArchive {
+    const zip = new ZipReader(fs.readFileSync(archivePath));
+    const members: ArchiveMember[] = [];
+
+    for (const entry of zip.entries) {
+        if (entry.isDirectory) {
+            continue;
+        }
+        const memberPath = resolveArchivePath(targetFolder, entry.name);
+        if (!memberPath) {
+            logger.warn(`Skipping unsafe archive entry in ${archivePath}: ${entry.name}`);
+            continue;
+        }
+
+        fs.mkdirSync(path.dirname(memberPath), { recursive: true });
+        const content = zip.read(entry);
+        fs.writeFileSync(memberPath, content);
+        members.push({
+            name: entry.name,
+            path: path.relative('.', memberPath),
+            type: classifyArchiveMember(entry.name),
+            size: content.length,
+        });
+    }
+
+    return { archive: archivePath, folder: targetFolder, members };
+}
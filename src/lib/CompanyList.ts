@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * 수집 대상 기업 (DART 검색 등에 사용)
+ */
+export interface CompanyEntry {
+    name: string;
+    /** 상장일 (YYYY-MM-DD) */
+    listingDate: string | null;
+    /** 종목코드 (6자리) */
+    ticker: string | null;
+}
+
+export const DEFAULT_COMPANIES_FILE = './data/kosdaq-companies.txt';
+
+/**
+ * 기업명 비교용 정규화 ("(주)", "㈜", "주식회사", 공백, 대소문자 차이 무시)
+ */
+export function normalizeCompanyName(name: string): string {
+    return name
+        .replace(/\(주\)|㈜|주식회사/g, '')
+        .replace(/\s+/g, '')
+        .toLowerCase();
+}
+
+/**
+ * 기업 목록 파일을 읽음
+ * 한 줄에 한 기업이며 "기업명<TAB>상장일<TAB>종목코드" 형식입니다. 상장일과 종목코드는 생략할 수 있고,
+ * 빈 줄과 '#'으로 시작하는 줄은 무시합니다.
+ */
+export function readCompanyList(filePath: string): CompanyEntry[] {
+    return fs.readFileSync(filePath, 'utf8')
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0 && !line.startsWith('#'))
+        .map(line => {
+            const [name, listingDate, ticker] = line.split('\t').map(field => field.trim());
+            return { name, listingDate: listingDate || null, ticker: ticker || null };
+        });
+}
+
+/**
+ * 기업 목록 파일을 작성 (임시 파일에 쓴 뒤 교체)
+ * @param comments 파일 앞부분에 '#' 주석으로 기록할 설명
+ */
+export function writeCompanyList(filePath: string, companies: CompanyEntry[], comments: string[] = []): void {
+    const folderPath = path.dirname(filePath);
+    if (!fs.existsSync(folderPath)) {
+        fs.mkdirSync(folderPath, { recursive: true });
+    }
+
+    const lines = [
+        ...comments.map(comment => `# ${comment}`),
+        ...companies.map(company => [company.name, company.listingDate ?? '', company.ticker ?? ''].join('\t').trimEnd()),
+    ];
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, lines.join('\n') + '\n', 'utf8');
+    fs.renameSync(tempPath, filePath);
+}
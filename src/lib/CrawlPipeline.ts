@@ -0,0 +1,563 @@
+import fs from 'fs';
+import path from 'path';
+import { CrawlStateStore } from './CrawlStateStore';
+import { DateWindow, formatWindow, halveWindow, splitDateRange } from './DateWindows';
+import { CORPUS_ROOT } from './DocumentPath';
+import { DownloadOptions, FileDownloader, FileLink } from './FileDownloader';
+import { HostRateLimiter } from './HostRateLimiter';
+import { Logger, logger } from './Logger';
+import { askUserConfirmation } from './Prompt';
+import { DEFAULT_RETRY, withRetry } from './Retry';
+import { buildFailedListingReport, buildListingReport, createRunReport, CrawlRunReport, ListingReport, writeRunReport } from './RunReport';
+import { CrawlJob, DocumentRecord, formatCompactDate, Listing, SourceAdapter, SourceContext } from './SourceAdapter';
+import { DEFAULT_OVERLAP_DAYS, WatermarkStore } from './SyncWatermarks';
+
+interface DiscoveryProgress {
+    status: 'in-progress' | 'complete';
+    /** 검색 기간 (증분 수집은 실행마다 기간이 달라지므로 같은 기간일 때만 이어서 진행) */
+    range?: string;
+}
+
+/**
+ * 검색 구간 하나의 페이지 순회 상태
+ */
+interface WindowProgress {
+    /** split: 결과 상한에 이르러 두 구간으로 나눠 다시 수집 */
+    status: 'in-progress' | 'complete' | 'split';
+    nextPage: number;
+    /** 직전 페이지의 문서 키 (같은 페이지가 반복되면 순회 중단) */
+    lastPageKeys: string[];
+    /** 지금까지 어댑터가 제외한 문서 수 */
+    excludedCount?: number;
+    /** 다음 페이지 요청에 쓸 커서 (커서로 페이지를 넘기는 소스) */
+    nextCursor?: string;
+}
+
+interface OutputPaths {
+    links: string;
+    meta: string;
+    state: string;
+    /** 목록 실행 기록 (검색 조건과 필터) */
+    run: string;
+}
+
+const DISCOVERY_KEY = 'discovery';
+/** 증분 수집에서 지금까지 모든 동기화로 찾은 문서 레코드 (연결 정보가 붙은 레코드, 레코드 연결에만 사용) */
+const SYNC_RECORDS_KEY = 'sync:records';
+/** 검색 구간 하나에서 넘길 최대 페이지 수 기본값 */
+const DEFAULT_MAX_PAGES = 1000;
+
+/**
+ * 모든 소스에 공통인 수집 과정
+ * 어댑터로 목록을 순회하여 문서 레코드와 다운로드 링크를 모은 뒤,
+ * 목록별 상태 파일로 재시작을 지원하면서 링크/메타데이터 JSON을 저장하고 파일을 다운로드합니다.
+ * 실행이 끝나면 목록별 모든 문서의 결과를 실행 보고서(RunReport)로 저장합니다.
+ */
+export class CrawlPipeline {
+    private context: SourceContext;
+    /** 증분 수집 기준점 (sync 실행에서만 사용) */
+    private watermarks = new WatermarkStore();
+    private log: Logger;
+
+    /**
+     * @param sourceId 실행 보고서와 로그에 기록할 소스 ID
+     */
+    constructor(private sourceId: string, private adapter: SourceAdapter, downloadOptions: DownloadOptions = {}) {
+        this.log = logger.child({ source: sourceId });
+        const rateLimiter = downloadOptions.rateLimiter ?? new HostRateLimiter();
+        const rateLimit = downloadOptions.rateLimit ?? adapter.rateLimit;
+        this.context = {
+            downloadOptions: { ...downloadOptions, rateLimiter, rateLimit, authorizeUrl: adapter.authorizeUrl?.bind(adapter) },
+            request: (url, task) => withRetry(() => rateLimiter.schedule(url, task, rateLimit), downloadOptions.retry ?? DEFAULT_RETRY, url),
+        };
+    }
+
+    /**
+     * 목록의 출력 파일 경로 (증분 수집은 실행마다 결과를 같은 파일에 추가하므로 파일 이름에 검색 기간을 넣지 않음)
+     */
+    private getOutputPaths(listing: Listing, job: CrawlJob): OutputPaths {
+        const base = job.sync
+            ? `${CORPUS_ROOT}/${listing.name}`
+            : `${CORPUS_ROOT}/${listing.name}-${formatCompactDate(listing.startDate)}-${formatCompactDate(listing.endDate)}`;
+        return { links: `${base}.json`, meta: `${base}-meta.json`, state: `${base}-state.jsonl`, run: `${base}-run.json` };
+    }
+
+    private writeJson(filePath: string, content: string): void {
+        const folderPath = path.dirname(filePath);
+        if (!fs.existsSync(folderPath)) {
+            fs.mkdirSync(folderPath, { recursive: true });
+            this.log.debug(`Folder created at ${folderPath}`);
+        }
+        fs.writeFileSync(filePath, content, 'utf8');
+    }
+
+    private saveFileLinksToJson(filePath: string, fileLinks: FileLink[]): void {
+        this.writeJson(filePath, '[\n' + fileLinks.map(link => `  ${JSON.stringify({ url: link.url, filename: link.filename })}`).join(',\n') + '\n]');
+        this.log.info(`File links saved to ${filePath}`, { count: fileLinks.length });
+    }
+
+    private saveMetadataToJson(filePath: string, entries: object[]): void {
+        this.writeJson(filePath, JSON.stringify(entries, null, 2));
+        this.log.debug(`Document metadata saved to ${filePath}`);
+    }
+
+    /**
+     * 이전 동기화의 링크/메타데이터 뒤에 이번 결과를 추가 (같은 URL은 이전 위치에서 이번 결과로 교체)
+     */
+    private appendToExisting(paths: OutputPaths, fileLinks: FileLink[], metadata: object[]): { fileLinks: FileLink[], metadata: object[] } {
+        const existingLinks: FileLink[] = fs.existsSync(paths.links) ? JSON.parse(fs.readFileSync(paths.links, 'utf8')) : [];
+        const existingMetadata: { url?: string }[] = fs.existsSync(paths.meta) ? JSON.parse(fs.readFileSync(paths.meta, 'utf8')) : [];
+        const linksByUrl = new Map(fileLinks.map(link => [link.url, link]));
+        const existingUrls = new Set(existingLinks.map(link => link.url));
+        const addedLinks = fileLinks.filter(link => !existingUrls.has(link.url));
+        const mergedLinks = [...existingLinks.map(link => linksByUrl.get(link.url) ?? link), ...addedLinks];
+
+        // 메타데이터는 URL별로 여러 항목일 수 있으므로 이번 결과에 있는 URL의 이전 항목을 모두 교체
+        const entriesByUrl = new Map<string, object[]>();
+        const unlinkedEntries = new Set<string>();
+        for (const entry of metadata as { url?: string }[]) {
+            if (entry.url) {
+                entriesByUrl.set(entry.url, [...(entriesByUrl.get(entry.url) ?? []), entry]);
+            } else {
+                unlinkedEntries.add(JSON.stringify(entry));
+            }
+        }
+        const mergedMetadata: object[] = [];
+        const replacedUrls = new Set<string>();
+        for (const entry of existingMetadata) {
+            const replacement = entry.url ? entriesByUrl.get(entry.url) : undefined;
+            if (!entry.url || !replacement) {
+                unlinkedEntries.delete(JSON.stringify(entry));
+                mergedMetadata.push(entry);
+            } else if (!replacedUrls.has(entry.url)) {
+                replacedUrls.add(entry.url);
+                mergedMetadata.push(...replacement);
+            }
+        }
+        for (const [url, entries] of entriesByUrl) {
+            if (!replacedUrls.has(url)) {
+                mergedMetadata.push(...entries);
+            }
+        }
+        mergedMetadata.push(...Array.from(unlinkedEntries, entry => JSON.parse(entry) as object));
+
+        this.log.info(`Sync added ${addedLinks.length} new file links to ${existingLinks.length} existing links`);
+        return { fileLinks: mergedLinks, metadata: mergedMetadata };
+    }
+
+    /**
+     * 이전 실행에서 저장한 구간의 페이지별 레코드를 읽음 (중간 페이지 기록이 없으면 null)
+     * 모든 페이지를 읽으면 페이지마다 어댑터의 restorePage를 호출합니다.
+     */
+    private loadWindowPages(listing: Listing, stateStore: CrawlStateStore, progressKey: string, nextPage: number): DocumentRecord[] | null {
+        const pages: { records: DocumentRecord[], excluded: DocumentRecord[] }[] = [];
+        for (let page = this.adapter.firstPage; page < nextPage; page++) {
+            const pageRecords = stateStore.getProgress<DocumentRecord[]>(`${progressKey}:page:${page}`);
+            if (!pageRecords) {
+                return null;
+            }
+            pages.push({ records: pageRecords, excluded: stateStore.getProgress<DocumentRecord[]>(`${progressKey}:page:${page}:excluded`) ?? [] });
+        }
+        for (const { records, excluded } of pages) {
+            this.adapter.restorePage?.(listing, records, excluded);
+        }
+        return pages.flatMap(page => page.records);
+    }
+
+    /**
+     * 검색 구간 하나의 모든 페이지를 순회하여 문서 레코드를 모음 (페이지마다 상태 파일에 기록하여 중단 시 이어서 진행)
+     * 결과가 windowCap에 이르면 순회를 멈추고 null을 반환하여 구간을 나누게 합니다.
+     * 같은 페이지가 반복되거나 최대 페이지 수에 이르는 등 문서가 빠졌을 수 있는 이유로 멈추면 경고합니다.
+     * @param knownKeys 증분 수집에서 이전 동기화로 이미 수집한 문서 키 (한 페이지가 모두 이 문서이면 순회 중단)
+     */
+    private async discoverWindow(listing: Listing, window: DateWindow, stateStore: CrawlStateStore, resume: boolean, job: CrawlJob, knownKeys: Set<string>): Promise<DocumentRecord[] | null> {
+        const windowId = formatWindow(window);
+        const progressKey = `window:${windowId}`;
+        const { windowCap, maxPages = DEFAULT_MAX_PAGES } = job;
+        const splittable = windowCap !== undefined && halveWindow(window) !== null;
+        let records: DocumentRecord[] = [];
+        let page = this.adapter.firstPage;
+        let cursor: string | undefined;
+        let lastPageKeys: string[] = [];
+        let totalCount: number | undefined;
+        let excludedCount = 0;
+
+        const progress = resume ? stateStore.getProgress<WindowProgress>(progressKey) : undefined;
+        if (progress?.status === 'split') {
+            return null;
+        }
+        const windowListing: Listing = { ...listing, ...window };
+        const resumed = progress ? this.loadWindowPages(windowListing, stateStore, progressKey, progress.nextPage) : null;
+        if (progress && resumed) {
+            if (progress.status === 'complete') {
+                this.log.debug(`Loaded ${resumed.length} documents of completed window ${windowId}`, { listing: listing.name });
+                return resumed;
+            }
+            records = resumed;
+            page = progress.nextPage;
+            cursor = progress.nextCursor;
+            lastPageKeys = progress.lastPageKeys ?? [];
+            excludedCount = progress.excludedCount ?? 0;
+            this.log.info(`Resuming window ${windowId} from page ${page} with ${records.length} documents`, { listing: listing.name });
+        }
+
+        while (true) {
+            this.log.debug(`Fetching page ${page} of ${listing.name} (${windowId})`);
+            const result = await this.adapter.fetchPage(windowListing, page, this.context, cursor);
+            const pageKeys = result.records.map(record => record.key);
+            this.log.debug(`Page ${page} of ${listing.name}: ${pageKeys.length} documents`, { listing: listing.name, window: windowId, page, documents: pageKeys.length, excluded: result.excludedCount ?? 0 });
+            this.context.downloadOptions.progress?.addPage();
+            totalCount = result.totalCount ?? totalCount;
+            if (result.excludedCount) {
+                this.log.debug(`Excluded ${result.excludedCount} documents on page ${page}`, { listing: listing.name });
+            }
+
+            const isDuplicatePage = pageKeys.length > 0 && lastPageKeys.length === pageKeys.length && lastPageKeys.every((key, index) => key === pageKeys[index]);
+            if (isDuplicatePage) {
+                this.log.warn(`Stopping fetch due to duplicate page detected at page ${page}; the source may be ignoring the page parameter`, { listing: listing.name, window: windowId });
+                break;
+            }
+
+            const collectedKeys = new Set(records.map(record => record.key));
+            records.push(...result.records.filter(record => !collectedKeys.has(record.key)));
+            stateStore.setProgress(`${progressKey}:page:${page}`, result.records);
+            if (result.excluded?.length) {
+                stateStore.setProgress(`${progressKey}:page:${page}:excluded`, result.excluded);
+            }
+            lastPageKeys = pageKeys;
+            excludedCount += result.excludedCount ?? 0;
+            cursor = result.nextCursor;
+            page += 1;
+
+            // 소스가 알려준 전체 건수 또는 지금까지 받은 건수가 상한에 이르면 구간을 나눔
+            if (splittable && Math.max(totalCount ?? 0, records.length + excludedCount) >= windowCap) {
+                this.log.info(`Window ${windowId} reached the result cap of ${windowCap}; splitting it in half`);
+                stateStore.setProgress(progressKey, { status: 'split', nextPage: page, lastPageKeys, excludedCount, nextCursor: cursor });
+                return null;
+            }
+            stateStore.setProgress(progressKey, { status: 'in-progress', nextPage: page, lastPageKeys, excludedCount, nextCursor: cursor });
+
+            if (result.records.length === 0 && !result.excludedCount) {
+                if (result.hasNextPage) {
+                    this.log.warn(`Stopping fetch: page ${page - 1} returned no documents`, { listing: listing.name, window: windowId });
+                }
+                break;
+            }
+            if (!result.hasNextPage) {
+                this.log.debug(`Reached last page of ${listing.name} (${windowId})`);
+                break;
+            }
+            if (result.records.length > 0 && result.records.every(record => knownKeys.has(record.key))) {
+                this.log.info(`Reached documents collected by the previous sync at page ${page - 1}; stopping fetch of ${windowId}`, { listing: listing.name });
+                break;
+            }
+            if (page - this.adapter.firstPage >= maxPages) {
+                this.log.warn(`Stopping fetch at the page limit of ${maxPages} for ${windowId}; some documents may be missing (raise --max-pages or use --window)`, { listing: listing.name });
+                break;
+            }
+        }
+
+        stateStore.setProgress(progressKey, { status: 'complete', nextPage: page, lastPageKeys, excludedCount, nextCursor: cursor });
+        if (totalCount !== undefined && totalCount !== records.length + excludedCount) {
+            this.log.warn(`Document count mismatch in ${windowId}: expected ${totalCount}, collected ${records.length} (excluded ${excludedCount})`, { listing: listing.name });
+        }
+        if (windowCap !== undefined && !splittable && records.length + excludedCount >= windowCap) {
+            this.log.warn(`Window ${windowId} reached the result cap of ${windowCap} but cannot be split further; some documents may be missing`, { listing: listing.name });
+        }
+        return records;
+    }
+
+    /**
+     * 목록의 검색 기간을 구간별로 순회하여 문서 레코드를 모음 (여러 구간에 나온 문서는 한 번만 포함)
+     * 구간 단위가 없으면 전체 기간을 한 구간으로 검색하며, 결과 상한에 이른 구간은 반으로 나눠 다시 검색합니다.
+     */
+    private async discoverRecords(listing: Listing, stateStore: CrawlStateStore, resume: boolean, job: CrawlJob, knownKeys: Set<string>): Promise<DocumentRecord[]> {
+        const pending = splitDateRange(listing.startDate, listing.endDate, job.window);
+        if (pending.length > 1) {
+            this.log.info(`Searching ${listing.name} in ${pending.length} ${job.window} windows`);
+        }
+
+        const records: DocumentRecord[] = [];
+        const collectedKeys = new Set<string>();
+        while (pending.length > 0) {
+            const window = pending.shift()!;
+            const windowRecords = await this.discoverWindow(listing, window, stateStore, resume, job, knownKeys);
+            if (windowRecords === null) {
+                pending.unshift(...halveWindow(window)!);
+                continue;
+            }
+            for (const record of windowRecords) {
+                if (!collectedKeys.has(record.key)) {
+                    collectedKeys.add(record.key);
+                    records.push(record);
+                }
+            }
+        }
+        return records;
+    }
+
+    /**
+     * 문서 레코드별 다운로드 링크를 조회 (이전 실행에서 조회한 문서는 다시 요청하지 않음)
+     */
+    private async resolveRecords(records: DocumentRecord[], stateStore: CrawlStateStore): Promise<{ fileLinks: FileLink[], metadata: object[] }> {
+        const fileLinks: FileLink[] = [];
+        const metadata: object[] = [];
+        const knownUrls = new Set<string>();
+
+        for (const record of records) {
+            const progressKey = `report:${record.key}`;
+            const cached = stateStore.getProgress<FileLink[] | FileLink>(progressKey);
+            let links = record.fileLinks ?? (cached ? [cached].flat() : undefined);
+            if (!links) {
+                links = await this.adapter.resolveDownloads(record, this.context);
+                if (links.length > 0) {
+                    stateStore.setProgress(progressKey, links);
+                }
+            }
+
+            if (links.length === 0) {
+                metadata.push({ ...record.metadata });
+            }
+            for (const link of links) {
+                const fileLink: FileLink = { url: link.url, filename: link.filename };
+                const linkMetadata = { ...record.metadata, ...link.metadata };
+                metadata.push({ ...fileLink, ...linkMetadata });
+                if (!knownUrls.has(link.url)) {
+                    knownUrls.add(link.url);
+                    fileLinks.push(fileLink);
+                    stateStore.recordDiscovered(fileLink, linkMetadata);
+                    this.context.downloadOptions.progress?.addLinks(1);
+                }
+            }
+        }
+
+        return { fileLinks, metadata };
+    }
+
+    /**
+     * 어댑터의 레코드 연결(정정 공시 체인 등)을 적용
+     * 증분 수집은 이전 동기화의 레코드와 합쳐서 연결하므로, 나중 동기화에서 찾은 정정 공시로 이전에 수집한 원본 공시도 대체 표시됩니다.
+     * 이전 동기화의 레코드는 다시 수집하지 않고, 연결 정보가 바뀐 레코드만 updated로 반환하여 메타데이터를 고칩니다.
+     */
+    private linkRecords(discovered: DocumentRecord[], stateStore: CrawlStateStore, job: CrawlJob): { records: DocumentRecord[], updated: DocumentRecord[] } {
+        if (!this.adapter.linkRecords) {
+            return { records: discovered, updated: [] };
+        }
+        if (!job.sync) {
+            return { records: this.adapter.linkRecords(discovered), updated: [] };
+        }
+
+        const previous = new Map((stateStore.getProgress<DocumentRecord[]>(SYNC_RECORDS_KEY) ?? []).map(record => [record.key, record]));
+        const merged = new Map(previous);
+        discovered.forEach(record => merged.set(record.key, record));
+        const linked = this.adapter.linkRecords(Array.from(merged.values()));
+        stateStore.setProgress(SYNC_RECORDS_KEY, linked);
+
+        const discoveredKeys = new Set(discovered.map(record => record.key));
+        return {
+            records: linked.filter(record => discoveredKeys.has(record.key)),
+            updated: linked.filter(record => !discoveredKeys.has(record.key) && JSON.stringify(record.metadata) !== JSON.stringify(previous.get(record.key)?.metadata)),
+        };
+    }
+
+    /**
+     * 이전 동기화에서 수집한 레코드의 바뀐 메타데이터를 상태 파일에 반영하고 meta.json 항목을 만듦 (다운로드 링크는 다시 조회하지 않음)
+     * 후처리로 더한 항목(압축 해제 결과 등)은 상태 파일의 문서 메타데이터에서 유지합니다.
+     */
+    private updateRecordMetadata(records: DocumentRecord[], stateStore: CrawlStateStore): object[] {
+        const metadata: object[] = [];
+        for (const record of records) {
+            const cached = stateStore.getProgress<FileLink[] | FileLink>(`report:${record.key}`);
+            for (const link of record.fileLinks ?? (cached ? [cached].flat() : [])) {
+                const fileLink: FileLink = { url: link.url, filename: link.filename };
+                const document = stateStore.get(fileLink);
+                const linkMetadata = { ...(document?.metadata as object | undefined), ...record.metadata, ...link.metadata };
+                if (document) {
+                    stateStore.updateMetadata(fileLink, linkMetadata);
+                }
+                metadata.push({ ...fileLink, ...linkMetadata });
+            }
+        }
+        if (records.length > 0) {
+            this.log.info(`Updated metadata of ${records.length} documents collected by earlier syncs`);
+        }
+        return metadata;
+    }
+
+    private async collectFileLinks(listing: Listing, paths: OutputPaths, stateStore: CrawlStateStore, job: CrawlJob): Promise<FileLink[]> {
+        const progress = stateStore.getProgress<DiscoveryProgress | DiscoveryProgress['status']>(DISCOVERY_KEY);
+        // 이전 버전의 DART 상태 파일은 진행 상태만 문자열로 기록함
+        const discovery: DiscoveryProgress | undefined = typeof progress === 'string' ? { status: progress } : progress;
+        const range = `${formatCompactDate(listing.startDate)}-${formatCompactDate(listing.endDate)}`;
+        const sameRange = discovery?.range === undefined || discovery.range === range;
+
+        // 증분 수집은 같은 기간이어도 그 뒤에 등록된 문서가 있을 수 있으므로 항상 다시 검색
+        if (discovery?.status === 'complete' && sameRange && !job.sync && fs.existsSync(paths.links)) {
+            const fileLinks: FileLink[] = JSON.parse(fs.readFileSync(paths.links, 'utf8'));
+            this.log.info(`Link discovery already completed. Loaded ${fileLinks.length} file links from ${paths.links}`);
+            this.context.downloadOptions.progress?.addLinks(fileLinks.length);
+            return fileLinks;
+        } else if (discovery === undefined && !job.sync && fs.existsSync(paths.links)) {
+            this.log.info(`Existing JSON file found: ${paths.links}`);
+
+            const userChoice = await askUserConfirmation("A file with existing download links was found. Do you want to use it? (y = use existing, n = fetch new): ", this.context.downloadOptions.assumeYes);
+
+            if (userChoice) {
+                const fileLinks: FileLink[] = JSON.parse(fs.readFileSync(paths.links, 'utf8'));
+                this.log.info(`Loaded ${fileLinks.length} file links from ${paths.links}`);
+                this.context.downloadOptions.progress?.addLinks(fileLinks.length);
+                fileLinks.forEach(link => stateStore.recordDiscovered(link));
+                stateStore.setProgress(DISCOVERY_KEY, { status: 'complete', range });
+                return fileLinks;
+            } else {
+                this.log.info("Fetching new download links");
+            }
+        }
+
+        const resume = discovery?.status === 'in-progress' && sameRange;
+        stateStore.setProgress(DISCOVERY_KEY, { status: 'in-progress', range });
+        const knownKeys = job.sync ? this.watermarks.getKnownKeys(listing) : new Set<string>();
+        const discovered = await this.discoverRecords(listing, stateStore, resume, job, knownKeys);
+        this.log.info(`Listing of ${listing.name} completed: ${discovered.length} documents`, { listing: listing.name, documents: discovered.length });
+        const { records, updated } = this.linkRecords(discovered, stateStore, job);
+        const resolved = await this.resolveRecords(records, stateStore);
+        const { fileLinks, metadata } = job.sync
+            ? this.appendToExisting(paths, resolved.fileLinks, [...resolved.metadata, ...this.updateRecordMetadata(updated, stateStore)])
+            : resolved;
+
+        this.saveFileLinksToJson(paths.links, fileLinks);
+        this.saveMetadataToJson(paths.meta, metadata);
+        stateStore.setProgress(DISCOVERY_KEY, { status: 'complete', range });
+        if (!job.sync) {
+            return fileLinks;
+        }
+
+        // 증분 수집은 이번에 찾은 문서와 이전 동기화에서 다운로드를 마치지 못한 문서만 다운로드 대상으로 넘김
+        this.watermarks.update(listing, discovered, job.overlapDays ?? DEFAULT_OVERLAP_DAYS);
+        const foundUrls = new Set(resolved.fileLinks.map(link => link.url));
+        return fileLinks.filter(link => foundUrls.has(link.url) || !stateStore.isCompleted(link));
+    }
+
+    /**
+     * 다운로드를 마친 문서마다 어댑터 후처리를 실행하고, 추가된 메타데이터를 상태 파일과 meta.json에 반영
+     */
+    private async processDownloads(fileLinks: FileLink[], paths: OutputPaths, stateStore: CrawlStateStore): Promise<void> {
+        if (!this.adapter.processDownload) {
+            return;
+        }
+
+        const additions = new Map<string, object>();
+        for (const fileLink of fileLinks) {
+            const document = stateStore.get(fileLink);
+            if (document?.status !== 'downloaded' && document?.status !== 'skipped') {
+                continue;
+            }
+            const localPath = path.join(CORPUS_ROOT, fileLink.filename);
+            const filePath = fs.existsSync(localPath) ? localPath : document.duplicateOf;
+            if (!filePath || !fs.existsSync(filePath)) {
+                continue;
+            }
+
+            try {
+                const addition = await this.adapter.processDownload({ fileLink, filePath, folder: CORPUS_ROOT, metadata: document.metadata }, this.context);
+                if (addition) {
+                    stateStore.updateMetadata(fileLink, { ...(document.metadata as object | undefined), ...addition });
+                    additions.set(fileLink.url, addition);
+                }
+            } catch (error) {
+                this.log.error(`Post-processing failed for ${fileLink.filename}`, { url: fileLink.url, error });
+            }
+        }
+
+        if (additions.size > 0 && fs.existsSync(paths.meta)) {
+            const entries: { url?: string }[] = JSON.parse(fs.readFileSync(paths.meta, 'utf8'));
+            this.saveMetadataToJson(paths.meta, entries.map(entry => ({ ...entry, ...(entry.url ? additions.get(entry.url) : undefined) })));
+        }
+    }
+
+    /**
+     * 목록의 검색 조건과 필터를 실행 기록 파일에 저장 (같은 코퍼스 구간을 다시 만들 수 있도록)
+     * 이전 실행과 필터가 다르면 같은 폴더에 두 조건의 결과가 섞이므로 경고합니다.
+     */
+    private recordRun(listing: Listing, paths: OutputPaths): void {
+        const filters = listing.filters ?? null;
+        if (fs.existsSync(paths.run)) {
+            const previous: { filters?: object | null } = JSON.parse(fs.readFileSync(paths.run, 'utf8'));
+            if (JSON.stringify(previous.filters ?? null) !== JSON.stringify(filters)) {
+                this.log.warn(`Filters for ${listing.name} differ from the previous run recorded in ${paths.run}; results of both runs share the same output files`);
+            }
+        }
+
+        this.writeJson(paths.run, JSON.stringify({
+            listing: listing.name,
+            sourceConfig: listing.sourceConfig,
+            query: listing.query ?? null,
+            startDate: formatCompactDate(listing.startDate),
+            endDate: formatCompactDate(listing.endDate),
+            filters,
+            recordedAt: new Date().toISOString(),
+        }, null, 2));
+    }
+
+    private async runListing(listing: Listing, job: CrawlJob): Promise<ListingReport> {
+        const paths = this.getOutputPaths(listing, job);
+        const stateStore = new CrawlStateStore(paths.state);
+        this.recordRun(listing, paths);
+
+        let fileLinks: FileLink[];
+        try {
+            fileLinks = await this.collectFileLinks(listing, paths, stateStore, job);
+        } finally {
+            // 다운로드 중에는 목록 페이지가 필요 없으므로 브라우저 등을 먼저 정리
+            await this.adapter.close();
+        }
+        this.log.info(`${fileLinks.length} file links found for ${listing.name}`, { listing: listing.name, links: fileLinks.length });
+
+        // 문서는 목록과 관계없이 코퍼스 루트 아래 소스별 정규 경로에 저장
+        const downloader = new FileDownloader(CORPUS_ROOT, this.context.downloadOptions, stateStore);
+        const results = await downloader.confirmAndDownloadFiles(fileLinks);
+        await this.processDownloads(fileLinks, paths, stateStore);
+        stateStore.compact();
+        return buildListingReport(listing, fileLinks, results, stateStore, paths.links);
+    }
+
+    /**
+     * 수집 요청의 모든 목록을 차례로 수집하고 실행 보고서를 저장
+     * 한 목록에서 오류가 나도 다음 목록을 계속 수집하며, 실패한 목록은 보고서의 failedListings에 기록합니다.
+     */
+    public async run(job: CrawlJob): Promise<{ report: CrawlRunReport, reportPath: string }> {
+        const startedAt = new Date();
+        const listingReports: ListingReport[] = [];
+        let listingCount = 0;
+
+        try {
+            const listings = await this.adapter.discoverListings(job, this.context);
+            listingCount = listings.length;
+            for (let i = job.startIndex ?? 0; i < listings.length; i++) {
+                const listing = job.sync ? this.watermarks.applyTo(listings[i], job.overlapDays ?? DEFAULT_OVERLAP_DAYS) : listings[i];
+                try {
+                    const listingReport = await this.runListing(listing, job);
+                    listingReports.push(listingReport);
+                    const { downloaded, skipped, failed, quarantined } = listingReport.counts;
+                    const message = `Index ${i}: ${listing.name} ${listingReport.status} (${downloaded} downloaded, ${skipped} skipped, ${failed} failed, ${quarantined} quarantined)`;
+                    if (failed > 0 || quarantined > 0 || listingReport.status === 'cancelled') {
+                        this.log.warn(message, { event: 'listing-finished', listing: listing.name, status: listingReport.status, ...listingReport.counts });
+                    } else {
+                        this.log.info(message, { event: 'listing-finished', listing: listing.name, status: listingReport.status, ...listingReport.counts });
+                    }
+                } catch (error) {
+                    this.log.error(`Error while collecting ${listing.name}`, { event: 'listing-finished', listing: listing.name, status: 'failed', error });
+                    listingReports.push(buildFailedListingReport(listing, error));
+                }
+            }
+            await this.adapter.finish?.(job);
+        } finally {
+            await this.adapter.close();
+        }
+
+        const report = createRunReport(this.sourceId, job, listingReports, listingCount, startedAt);
+        const reportPath = writeRunReport(report);
+        this.log.info(`Run report saved to ${reportPath}`, { event: 'run-report', path: reportPath, failedListings: report.failedListings.length, ...report.totals });
+        return { report, reportPath };
+    }
+}
@@ -0,0 +1,174 @@
+import fs from 'fs';
+import path from 'path';
+import { FileLink } from './FileDownloader';
+import { logger } from './Logger';
+
+export type DocumentStatus = 'discovered' | 'downloaded' | 'skipped' | 'failed' | 'quarantined';
+
+export interface DocumentState {
+    id: string;
+    url: string;
+    filename: string;
+    status: DocumentStatus;
+    size?: number;
+    sha256?: string;
+    /** 바이트가 동일한 원본 파일 경로 (코퍼스 해시 중복일 때) */
+    duplicateOf?: string;
+    lastError?: string;
+    /** 검증에 실패한 파일을 옮긴 격리 폴더 경로 */
+    quarantinedTo?: string;
+    /** 목록 페이지에서 추출한 소스별 메타데이터 */
+    metadata?: unknown;
+    attempts: number;
+    updatedAt: string;
+}
+
+type StateEvent =
+    | { type: 'document', document: DocumentState }
+    | { type: 'progress', key: string, value: unknown };
+
+/**
+ * 문서 ID를 키로 하는 수집 상태 저장소 (append-only JSONL)
+ * 모든 변경을 한 줄씩 추가 기록하고 로드 시 키별 마지막 기록을 사용하므로,
+ * 실행이 중간에 종료되어도 기록 중이던 한 줄만 유실됩니다.
+ */
+export class CrawlStateStore {
+    private documents = new Map<string, DocumentState>();
+    private progress = new Map<string, unknown>();
+
+    constructor(private filePath: string) {
+        this.load();
+    }
+
+    public static getDocumentId(fileLink: FileLink): string {
+        return fileLink.url;
+    }
+
+    private load(): void {
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+
+        const content = fs.readFileSync(this.filePath, 'utf8');
+        if (content.length > 0 && !content.endsWith('\n')) {
+            // 중단된 쓰기로 잘린 마지막 줄 뒤에 다음 기록이 이어 붙지 않도록 줄을 끝맺음
+            fs.appendFileSync(this.filePath, '\n', 'utf8');
+        }
+
+        const lines = content.split('\n');
+        for (const line of lines) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                this.apply(JSON.parse(line) as StateEvent);
+            } catch {
+                logger.warn(`Ignoring malformed state line in ${this.filePath}`);
+            }
+        }
+        logger.debug(`Loaded crawl state: ${this.documents.size} documents from ${this.filePath}`);
+    }
+
+    private apply(event: StateEvent): void {
+        if (event.type === 'document') {
+            this.documents.set(event.document.id, event.document);
+        } else if (event.type === 'progress') {
+            this.progress.set(event.key, event.value);
+        }
+    }
+
+    private append(event: StateEvent): void {
+        const folderPath = path.dirname(this.filePath);
+        if (!fs.existsSync(folderPath)) {
+            fs.mkdirSync(folderPath, { recursive: true });
+        }
+
+        fs.appendFileSync(this.filePath, JSON.stringify(event) + '\n', 'utf8');
+        this.apply(event);
+    }
+
+    private updateDocument(fileLink: FileLink, changes: Partial<DocumentState>): DocumentState {
+        const id = CrawlStateStore.getDocumentId(fileLink);
+        const previous = this.documents.get(id);
+        const document: DocumentState = {
+            id,
+            url: fileLink.url,
+            filename: fileLink.filename,
+            status: 'discovered',
+            attempts: 0,
+            ...previous,
+            ...changes,
+            updatedAt: new Date().toISOString(),
+        };
+        this.append({ type: 'document', document });
+        return document;
+    }
+
+    public get(fileLink: FileLink): DocumentState | undefined {
+        return this.documents.get(CrawlStateStore.getDocumentId(fileLink));
+    }
+
+    public getAll(): DocumentState[] {
+        return Array.from(this.documents.values());
+    }
+
+    public isCompleted(fileLink: FileLink): boolean {
+        const status = this.get(fileLink)?.status;
+        return status === 'downloaded' || status === 'skipped';
+    }
+
+    public recordDiscovered(fileLink: FileLink, metadata?: unknown): void {
+        if (!this.get(fileLink)) {
+            this.updateDocument(fileLink, { status: 'discovered', metadata });
+        }
+    }
+
+    public updateMetadata(fileLink: FileLink, metadata: unknown): void {
+        this.updateDocument(fileLink, { metadata });
+    }
+
+    public markDownloaded(fileLink: FileLink, size: number, sha256: string, duplicateOf?: string): void {
+        const attempts = (this.get(fileLink)?.attempts ?? 0) + 1;
+        this.updateDocument(fileLink, { status: 'downloaded', size, sha256, duplicateOf, attempts, lastError: undefined });
+    }
+
+    public markSkipped(fileLink: FileLink, size?: number, sha256?: string, duplicateOf?: string): void {
+        this.updateDocument(fileLink, { status: 'skipped', size, sha256, duplicateOf, lastError: undefined });
+    }
+
+    public markFailed(fileLink: FileLink, error: unknown): void {
+        const attempts = (this.get(fileLink)?.attempts ?? 0) + 1;
+        const lastError = error instanceof Error ? error.message : String(error);
+        this.updateDocument(fileLink, { status: 'failed', attempts, lastError });
+    }
+
+    public markQuarantined(fileLink: FileLink, reason: string, quarantinedTo: string): void {
+        const attempts = (this.get(fileLink)?.attempts ?? 0) + 1;
+        this.updateDocument(fileLink, { status: 'quarantined', attempts, lastError: reason, quarantinedTo });
+    }
+
+    public getProgress<T>(key: string): T | undefined {
+        return this.progress.get(key) as T | undefined;
+    }
+
+    public setProgress(key: string, value: unknown): void {
+        this.append({ type: 'progress', key, value });
+    }
+
+    /**
+     * 키별 최신 기록만 남기도록 상태 파일을 다시 작성
+     */
+    public compact(): void {
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+
+        const events: StateEvent[] = [
+            ...Array.from(this.progress.entries()).map(([key, value]): StateEvent => ({ type: 'progress', key, value })),
+            ...Array.from(this.documents.values()).map((document): StateEvent => ({ type: 'document', document })),
+        ];
+        const tempPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tempPath, events.map(event => JSON.stringify(event)).join('\n') + '\n', 'utf8');
+        fs.renameSync(tempPath, this.filePath);
+    }
+}
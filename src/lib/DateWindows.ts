@@ -0,0 +1,84 @@
+import { formatCompactDate, SearchDate } from './SourceAdapter';
+
+/** 검색 기간을 나누는 단위 */
+export type WindowSize = 'month' | 'week' | 'day';
+export const WINDOW_SIZES: WindowSize[] = ['month', 'week', 'day'];
+
+/**
+ * 검색 기간 중 한 구간 (시작일과 종료일 포함)
+ */
+export interface DateWindow {
+    startDate: SearchDate;
+    endDate: SearchDate;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toTime(date: SearchDate): number {
+    return Date.UTC(date.year, date.month - 1, date.day);
+}
+
+function fromTime(time: number): SearchDate {
+    const date = new Date(time);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * 날짜에 일 수를 더함 (음수면 뺌)
+ */
+export function addDays(date: SearchDate, days: number): SearchDate {
+    return fromTime(toTime(date) + days * DAY_MS);
+}
+
+/** 두 날짜 중 이른 날짜 */
+export function earlierDate(a: SearchDate, b: SearchDate): SearchDate {
+    return toTime(a) <= toTime(b) ? a : b;
+}
+
+/** 상태 파일 키와 로그에 쓰는 구간 표기 (예: "20240101-20240131") */
+export function formatWindow(window: DateWindow): string {
+    return `${formatCompactDate(window.startDate)}-${formatCompactDate(window.endDate)}`;
+}
+
+/**
+ * 검색 기간을 달력 단위 구간으로 나눔 (월은 1일, 주는 월요일부터 시작하며, 첫 구간과 마지막 구간은 기간에 맞춰 자름)
+ * 단위가 없으면 전체 기간을 한 구간으로 반환합니다.
+ */
+export function splitDateRange(startDate: SearchDate, endDate: SearchDate, size?: WindowSize): DateWindow[] {
+    const end = toTime(endDate);
+    if (!size || toTime(startDate) > end) {
+        return [{ startDate, endDate }];
+    }
+
+    const windows: DateWindow[] = [];
+    for (let start = toTime(startDate); start <= end;) {
+        const date = new Date(start);
+        let next: number;
+        if (size === 'month') {
+            next = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+        } else if (size === 'week') {
+            next = start + (7 - (date.getUTCDay() + 6) % 7) * DAY_MS;
+        } else {
+            next = start + DAY_MS;
+        }
+        windows.push({ startDate: fromTime(start), endDate: fromTime(Math.min(next - DAY_MS, end)) });
+        start = next;
+    }
+    return windows;
+}
+
+/**
+ * 구간을 날짜 기준으로 반으로 나눔 (하루짜리 구간은 나눌 수 없으므로 null)
+ */
+export function halveWindow(window: DateWindow): [DateWindow, DateWindow] | null {
+    const start = toTime(window.startDate);
+    const end = toTime(window.endDate);
+    if (end <= start) {
+        return null;
+    }
+    const middle = start + Math.floor((end - start) / DAY_MS / 2) * DAY_MS;
+    return [
+        { startDate: window.startDate, endDate: fromTime(middle) },
+        { startDate: fromTime(middle + DAY_MS), endDate: window.endDate },
+    ];
+}
@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import path from 'path';
+
+/** 모든 소스의 문서를 저장하는 코퍼스 루트 폴더 */
+export const CORPUS_ROOT = './downloads';
+
+/**
+ * 코퍼스 안에서 문서 하나의 위치를 정하는 정보
+ */
+export interface DocumentLocation {
+    /** 소스 이름 (예: "DART", "한경컨센서스") */
+    source: string;
+    /** 소스 안의 분류 (예: "공시자료", "기업분석") */
+    category: string;
+    /** 문서 날짜 (YYYY-MM-DD, 모르면 null) */
+    date: string | null;
+    /** 소스별 정규 문서 ID (예: DART 접수번호_문서번호, 한경 보고서 번호) */
+    id: string;
+    /** 확장자 ('.' 없이, 없으면 빈 문자열) */
+    extension: string;
+}
+
+/**
+ * 경로 한 구간에 쓸 수 없는 문자를 '_'로 바꿈
+ */
+export function sanitizePathSegment(text: string): string {
+    const sanitized = text.replace(/[<>:"/\\|?*\x00-\x1f]+/g, '_').trim();
+    return sanitized.length > 0 && !/^\.+$/.test(sanitized) ? sanitized : '_';
+}
+
+/**
+ * 코퍼스 루트 기준 문서 경로: {source}/{category}/{yyyy}/{mm}/{id}.{ext}
+ * 같은 문서는 수집 기간이나 실행 순서와 관계없이 항상 같은 경로가 되며, 날짜를 모르면 yyyy/mm 대신 undated 폴더를 씁니다.
+ */
+export function buildDocumentPath(location: DocumentLocation): string {
+    const date = /^(\d{4})-(\d{2})/.exec(location.date ?? '');
+    const folders = [location.source, location.category, ...(date ? [date[1], date[2]] : ['undated'])];
+    const extension = location.extension.replace(/^\./, '').toLowerCase();
+    const filename = sanitizePathSegment(location.id) + (extension ? `.${sanitizePathSegment(extension)}` : '');
+    return [...folders.map(sanitizePathSegment), filename].join('/');
+}
+
+/**
+ * 소스가 문서 번호를 주지 않을 때 쓰는 ID (다운로드 URL의 SHA-256 앞 16자리)
+ */
+export function hashDocumentId(url: string): string {
+    return crypto.createHash('sha256').update(url).digest('hex').slice(0, 16);
+}
+
+/**
+ * 파일명 후보 중 처음으로 확장자가 있는 것의 확장자 (URL은 경로 부분만 봄)
+ */
+export function findExtension(...candidates: (string | null | undefined)[]): string {
+    for (const candidate of candidates) {
+        if (!candidate) {
+            continue;
+        }
+        const pathname = /^https?:\/\//i.test(candidate) ? new URL(candidate).pathname : candidate;
+        const extension = path.extname(pathname).slice(1);
+        if (/^[A-Za-z0-9]{1,5}$/.test(extension)) {
+            return extension.toLowerCase();
+        }
+    }
+    return '';
+}
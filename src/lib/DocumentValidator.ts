@@ -0,0 +1,218 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from './Logger';
+import { ZipReader } from './ZipReader';
+
+/**
+ * 파일 앞부분 바이트로 판별한 형식
+ * ole: MS Office 97-2003, HWP 5 등 OLE 복합 문서
+ */
+export type DetectedFileType = 'pdf' | 'zip' | 'ole' | 'html' | 'xml' | 'empty' | 'unknown';
+
+export interface ValidationResult {
+    valid: boolean;
+    detectedType: DetectedFileType;
+    /** 검증에 실패한 이유 */
+    reason?: string;
+    /** 내용은 정상이지만 Content-Type이 확장자와 맞지 않는 경우 등 */
+    warning?: string;
+    /** PDF 페이지 수 (페이지 객체가 압축된 객체 스트림 안에 있어 셀 수 없으면 undefined) */
+    pageCount?: number;
+}
+
+/**
+ * 격리한 파일 옆에 저장하는 사유 파일 내용
+ */
+export interface QuarantineRecord {
+    /** 원래 저장하려던 경로 */
+    file: string;
+    url?: string;
+    reason: string;
+    detectedType: DetectedFileType;
+    contentType?: string;
+    size: number;
+    quarantinedAt: string;
+}
+
+/**
+ * 검증에 실패하여 격리 폴더로 옮긴 문서 (재시도해도 같은 응답일 가능성이 높으므로 재시도하지 않음)
+ */
+export class InvalidDocumentError extends Error {
+    constructor(message: string, public readonly quarantinePath: string) {
+        super(message);
+        this.name = 'InvalidDocumentError';
+    }
+}
+
+/**
+ * 확장자별로 허용하는 형식 (없는 확장자는 형식을 검사하지 않음)
+ * xls는 사이트가 HTML 표를 .xls로 내려주는 경우가 많아 검사하지 않습니다.
+ */
+const EXPECTED_TYPES: Record<string, DetectedFileType[]> = {
+    pdf: ['pdf'],
+    zip: ['zip'],
+    docx: ['zip'],
+    xlsx: ['zip'],
+    pptx: ['zip'],
+    hwpx: ['zip'],
+    doc: ['ole'],
+    ppt: ['ole'],
+    hwp: ['ole'],
+};
+
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+/** PDF 끝 표시(%%EOF)를 찾을 파일 끝 범위 (뒤에 공백이나 쓰레기 바이트가 붙는 경우 허용) */
+const PDF_TRAILER_RANGE = 2048;
+
+export const QUARANTINE_FOLDER = 'quarantine';
+
+/**
+ * 파일 앞부분 바이트로 형식 판별
+ */
+export function detectFileType(data: Buffer): DetectedFileType {
+    if (data.length === 0) {
+        return 'empty';
+    }
+    const head = data.subarray(0, 1024);
+    if (head.includes('%PDF-')) {
+        return 'pdf';
+    }
+    if (head.length >= 4 && head[0] === 0x50 && head[1] === 0x4b && (head[2] === 0x03 || head[2] === 0x05) && (head[3] === 0x04 || head[3] === 0x06)) {
+        return 'zip';
+    }
+    if (head.subarray(0, OLE_SIGNATURE.length).equals(OLE_SIGNATURE)) {
+        return 'ole';
+    }
+
+    const text = head.toString('latin1').replace(/^\xef\xbb\xbf/, '').trimStart().toLowerCase();
+    if (text.startsWith('<!doctype html') || text.startsWith('<html') || /<(html|head|body|script)[\s>]/.test(text)) {
+        return 'html';
+    }
+    if (text.startsWith('<?xml')) {
+        return 'xml';
+    }
+    return 'unknown';
+}
+
+/**
+ * PDF 끝 표시와 페이지 수 검사
+ */
+function validatePdf(data: Buffer): Omit<ValidationResult, 'detectedType'> {
+    if (!data.subarray(Math.max(0, data.length - PDF_TRAILER_RANGE)).includes('%%EOF')) {
+        return { valid: false, reason: 'Truncated PDF: %%EOF trailer not found' };
+    }
+
+    const content = data.toString('latin1');
+    const pageCount = (content.match(/\/Type\s*\/Page(?![A-Za-z])/g) ?? []).length;
+    if (pageCount > 0) {
+        return { valid: true, pageCount };
+    }
+    // PDF 1.5 이상은 페이지 객체를 압축된 객체 스트림에 넣을 수 있어 셀 수 없음
+    if (/\/Type\s*\/ObjStm/.test(content)) {
+        return { valid: true };
+    }
+    return { valid: false, reason: 'PDF has no pages', pageCount: 0 };
+}
+
+/**
+ * ZIP 중앙 디렉터리와 항목 수 검사
+ */
+function validateZip(data: Buffer): Omit<ValidationResult, 'detectedType'> {
+    try {
+        const entries = new ZipReader(data).entries.filter(entry => !entry.isDirectory);
+        return entries.length > 0 ? { valid: true } : { valid: false, reason: 'ZIP archive has no entries' };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // ZIP64는 읽을 수 없을 뿐 손상된 파일이 아님
+        return /ZIP64/.test(message) ? { valid: true, warning: message } : { valid: false, reason: `Corrupt ZIP: ${message}` };
+    }
+}
+
+/**
+ * 받은 문서의 내용이 확장자(filename)와 Content-Type에 맞는지 검사
+ * HTML 오류/로그인 페이지, 빈 파일, 끝이 잘린 PDF, 중앙 디렉터리가 없는 ZIP은 실패로 판정합니다.
+ * @param data 파일 내용
+ * @param filename 저장할 파일명 (확장자로 기대 형식을 정함)
+ * @param contentType 응답의 Content-Type (있으면 확장자와 맞는지 확인)
+ */
+export function validateDocument(data: Buffer, filename: string, contentType?: string): ValidationResult {
+    const detectedType = detectFileType(data);
+    const extension = path.extname(filename).slice(1).toLowerCase();
+    const expected = EXPECTED_TYPES[extension];
+
+    if (detectedType === 'empty') {
+        return { valid: false, detectedType, reason: 'Empty file' };
+    }
+    if (!expected) {
+        return { valid: true, detectedType };
+    }
+    if (!expected.includes(detectedType)) {
+        const received = detectedType === 'html' ? 'an HTML page (error or login page?)' : `${detectedType} content`;
+        return { valid: false, detectedType, reason: `Expected ${expected.join('/')} for .${extension} but received ${received}` };
+    }
+
+    const result = detectedType === 'pdf' ? validatePdf(data) : detectedType === 'zip' ? validateZip(data) : { valid: true };
+    const warning = contentType && /text\/html/i.test(contentType)
+        ? `Content-Type ${contentType} does not match .${extension}`
+        : undefined;
+    return { detectedType, warning, ...result };
+}
+
+/**
+ * 파일을 검사 (validateDocument 참고)
+ */
+export function validateFile(filePath: string, contentType?: string): ValidationResult {
+    return validateDocument(fs.readFileSync(filePath), filePath, contentType);
+}
+
+/**
+ * 검증에 실패한 파일을 루트 폴더 아래 격리 폴더로 옮기고 옆에 사유 파일(.reason.json)을 저장
+ * 격리 폴더 안에서는 루트 폴더 기준 상대 경로를 유지합니다.
+ * @param sourcePath 옮길 파일 (받는 중인 .part 파일 등)
+ * @param documentPath 원래 저장하려던 경로
+ * @returns 격리한 파일 경로
+ */
+export function quarantineFile(sourcePath: string, documentPath: string, details: Omit<QuarantineRecord, 'file' | 'size' | 'quarantinedAt'>, rootPath: string = './downloads'): string {
+    const relative = path.relative(rootPath, documentPath);
+    const inside = relative.length > 0 && !relative.startsWith('..') && !path.isAbsolute(relative);
+    const targetPath = path.join(rootPath, QUARANTINE_FOLDER, inside ? relative : path.basename(documentPath));
+
+    fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+    const size = fs.statSync(sourcePath).size;
+    fs.renameSync(sourcePath, targetPath);
+
+    const record: QuarantineRecord = { file: documentPath, ...details, size, quarantinedAt: new Date().toISOString() };
+    fs.writeFileSync(`${targetPath}.reason.json`, JSON.stringify(record, null, 2), 'utf8');
+    return targetPath;
+}
+
+/**
+ * 폴더 아래의 문서 파일을 모두 다시 검사 (격리 폴더, JSON/상태 파일, Markdown/CSV 변환 결과, 미완성 .part 파일 제외)
+ * @returns 검증에 실패한 파일과 결과
+ */
+export function verifyDirectory(rootPath: string): { filePath: string, result: ValidationResult }[] {
+    const invalid: { filePath: string, result: ValidationResult }[] = [];
+    const quarantinePath = path.resolve(rootPath, QUARANTINE_FOLDER);
+    let checked = 0;
+
+    const walk = (folderPath: string): void => {
+        for (const entry of fs.readdirSync(folderPath, { withFileTypes: true })) {
+            const entryPath = path.join(folderPath, entry.name);
+            if (entry.isDirectory()) {
+                if (path.resolve(entryPath) !== quarantinePath) {
+                    walk(entryPath);
+                }
+            } else if (entry.isFile() && !/\.(json|jsonl|part|tmp|md|csv)$/i.test(entry.name)) {
+                const result = validateFile(entryPath);
+                checked += 1;
+                if (!result.valid) {
+                    invalid.push({ filePath: entryPath, result });
+                }
+            }
+        }
+    };
+
+    walk(rootPath);
+    logger.info(`Verified ${checked} files under ${rootPath}: ${invalid.length} invalid`);
+    return invalid;
+}
@@ -1,118 +1,337 @@
-import readline from 'readline';
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import axios from 'axios';
+import { CrawlStateStore } from './CrawlStateStore';
+import { InvalidDocumentError, quarantineFile, validateDocument } from './DocumentValidator';
+import { DuplicatePolicy, HashIndex } from './HashIndex';
+import { DEFAULT_RATE_LIMIT, HostRateLimiter, RateLimitConfig } from './HostRateLimiter';
+import { logger } from './Logger';
+import { ProgressReporter } from './ProgressReporter';
+import { askUserConfirmation } from './Prompt';
+import { classifyError, DEFAULT_RETRY, RetryableError, RetryConfig, withRetry } from './Retry';
+import { runWithConcurrency } from './WorkerPool';
 
 export interface FileLink {
     url: string;
+    /** 다운로드 폴더(코퍼스 루트) 기준 파일 경로 ('/'로 하위 폴더 지정, buildDocumentPath 참고) */
     filename: string;
+    /** 문서 메타데이터에 더할 링크별 항목 (한 문서에 파일이 여럿일 때 구분용, 링크 JSON에는 저장하지 않음) */
+    metadata?: object;
+}
+
+export type DownloadOutcome = 'downloaded' | 'skipped' | 'failed' | 'quarantined';
+
+/**
+ * 문서 하나의 다운로드 결과 (failed, quarantined이면 error에 이유)
+ */
+export interface DownloadResult {
+    fileLink: FileLink;
+    outcome: DownloadOutcome;
+    error?: string;
+}
+
+/**
+ * 다운로드 동작 설정 (여러 소스를 병렬 수집할 때 rateLimiter와 hashIndex는 공유)
+ */
+export interface DownloadOptions {
+    rateLimiter?: HostRateLimiter;
+    rateLimit?: RateLimitConfig;
+    retry?: RetryConfig;
+    assumeYes?: boolean;
+    hashIndex?: HashIndex;
+    duplicatePolicy?: DuplicatePolicy;
+    /** 요청 직전에 API 키 등 인증 파라미터를 붙이는 함수 (상태 파일과 인덱스에는 원래 URL만 기록) */
+    authorizeUrl?: (url: string) => string;
+    /** 받은 바이트 수와 문서별 결과를 전달할 진행 상황 표시 (여러 소스를 병렬 수집할 때 공유) */
+    progress?: ProgressReporter;
 }
 
 export class FileDownloader {
+    private readonly STALL_TIMEOUT_MS = 60000;
+    private rateLimiter: HostRateLimiter;
+    private rateLimit: RateLimitConfig;
+    private retryConfig: RetryConfig;
+    private assumeYes: boolean;
+    private hashIndex?: HashIndex;
+    private duplicatePolicy: DuplicatePolicy;
+    private authorizeUrl: (url: string) => string;
+    private progress?: ProgressReporter;
+
     constructor(
         private folderPath: string,
-        private minDelayMs: number = 0,
-        private maxDelayMs: number = 0
-    ) {}
+        options: DownloadOptions = {},
+        private stateStore?: CrawlStateStore
+    ) {
+        this.rateLimiter = options.rateLimiter ?? new HostRateLimiter();
+        this.rateLimit = options.rateLimit ?? DEFAULT_RATE_LIMIT;
+        this.retryConfig = options.retry ?? DEFAULT_RETRY;
+        this.assumeYes = options.assumeYes ?? false;
+        this.hashIndex = options.hashIndex;
+        this.duplicatePolicy = options.duplicatePolicy ?? 'link';
+        this.authorizeUrl = options.authorizeUrl ?? (url => url);
+        this.progress = options.progress;
+    }
 
-    private getRandomDelay(): number {
-        return Math.floor(Math.random() * (this.maxDelayMs - this.minDelayMs + 1)) + this.minDelayMs;
+    /**
+     * 받은 파일의 내용을 검사하여 실패하면 격리 폴더로 옮기고 InvalidDocumentError를 던짐
+     * @param sourcePath 검사할 파일 (.part 파일 또는 기존 파일)
+     * @param filePath 최종 저장 경로
+     */
+    private validateDownload(fileLink: FileLink, sourcePath: string, filePath: string, contentType?: string): void {
+        const result = validateDocument(fs.readFileSync(sourcePath), filePath, contentType);
+        if (result.warning) {
+            logger.warn(`${fileLink.filename}: ${result.warning}`, { url: fileLink.url });
+        }
+        if (!result.valid) {
+            const reason = result.reason ?? 'Invalid document';
+            const quarantinePath = quarantineFile(sourcePath, filePath, { url: fileLink.url, reason, detectedType: result.detectedType, contentType }, this.folderPath);
+            throw new InvalidDocumentError(reason, quarantinePath);
+        }
     }
 
-    private async delay(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
+    private async hashExistingFile(filePath: string, hash: crypto.Hash): Promise<void> {
+        const reader = fs.createReadStream(filePath);
+        for await (const chunk of reader) {
+            hash.update(chunk as Buffer);
+        }
     }
 
-    private async askUserConfirmation(message: string): Promise<boolean> {
-        const rl = readline.createInterface({
-            input: process.stdin,
-            output: process.stdout,
-        });
+    /**
+     * 한 번의 다운로드 시도. `.part` 파일에 기록한 뒤 완료되면 최종 파일명으로 rename 합니다.
+     * 이전 시도의 `.part` 파일이 있으면 Range 요청으로 이어받고, 서버가 Range를 지원하지 않으면 처음부터 다시 받습니다.
+     */
+    private async transferFile(fileLink: FileLink, filePath: string): Promise<DownloadOutcome> {
+        const partPath = `${filePath}.part`;
+        let partSize = fs.existsSync(partPath) ? fs.statSync(partPath).size : 0;
 
-        return new Promise(resolve => {
-            rl.question(message, answer => {
-                rl.close();
-                resolve(answer.trim().toLowerCase() === 'y');
-            });
+        const response = await axios.get(this.authorizeUrl(fileLink.url), {
+            responseType: 'stream',
+            timeout: this.STALL_TIMEOUT_MS,
+            headers: partSize > 0 ? { Range: `bytes=${partSize}-` } : {},
+            validateStatus: status => (status >= 200 && status < 300) || status === 416,
         });
-    }
 
-    private async downloadFile(fileLink: FileLink): Promise<{downloaded: boolean}> {
-        const filePath = path.join(this.folderPath, fileLink.filename);
+        if (response.status === 416) {
+            response.data.destroy();
+            fs.unlinkSync(partPath);
+            throw new RetryableError('Range not satisfiable for partial file, restarting download');
+        }
 
-        try {
-            const response = await axios.get(fileLink.url, { responseType: 'stream' });
-
-            if (fs.existsSync(filePath)) {
-                const existingFileSize = fs.statSync(filePath).size;
-                const contentLengthHeader = response.headers["content-length"];
-                const tempFileSize = contentLengthHeader ? parseInt(contentLengthHeader, 10) : null;
-            
-                if (tempFileSize === null) {
-                    console.log("Download skipped: Existing file detected, but size comparison is not possible.");
-                    return {downloaded: false};
-                }
-            
-                console.log(`existingFileSize: ${existingFileSize}, tempFileSize: ${tempFileSize}`);
-            
-                if (existingFileSize === tempFileSize) {
-                    console.log("Download skipped: File already exists and matches size.");
-                    return {downloaded: false};
-                }
-            
-                console.log("Existing file differs in size. Replacing...");
-                fs.unlinkSync(filePath);
+        const contentType = response.headers["content-type"] ? String(response.headers["content-type"]) : undefined;
+        const contentLengthHeader = response.headers["content-length"];
+        const contentLength = contentLengthHeader ? parseInt(String(contentLengthHeader), 10) : null;
+        const isResumed = partSize > 0 && response.status === 206;
+
+        if (partSize > 0 && !isResumed) {
+            logger.info(`Server ignored Range request for ${fileLink.filename}; restarting download from the beginning`, { url: fileLink.url });
+            partSize = 0;
+        }
+
+        if (!isResumed && fs.existsSync(filePath)) {
+            const existingFileSize = fs.statSync(filePath).size;
+        
+            if (contentLength === null) {
+                logger.debug(`Download skipped: ${fileLink.filename} exists, but size comparison is not possible`, { url: fileLink.url });
+                response.data.destroy();
+                return this.registerExistingFile(fileLink, filePath, contentType);
             }
-    
-            const writer = fs.createWriteStream(filePath);
 
-            response.data.pipe(writer);
+            if (existingFileSize === contentLength) {
+                logger.debug(`Download skipped: ${fileLink.filename} exists and matches size`, { url: fileLink.url, size: existingFileSize });
+                response.data.destroy();
+                return this.registerExistingFile(fileLink, filePath, contentType);
+            }
+
+            logger.info(`Existing file ${fileLink.filename} differs in size; replacing`, { url: fileLink.url, existingSize: existingFileSize, size: contentLength });
+        }
+
+        const hash = crypto.createHash('sha256');
+        if (isResumed) {
+            logger.info(`Resuming partial download of ${fileLink.filename} from byte ${partSize}`, { url: fileLink.url });
+            await this.hashExistingFile(partPath, hash);
+        }
 
-            await new Promise<void>((resolve, reject) => {
-                writer.on('finish', resolve);
-                writer.on('error', reject);
+        const writer = fs.createWriteStream(partPath, { flags: isResumed ? 'a' : 'w' });
+        let size = partSize;
+
+        await new Promise<void>((resolve, reject) => {
+            // 응답 헤더 수신 후 데이터가 멈춘 경우에도 타임아웃으로 처리
+            let stallTimer = setTimeout(() => response.data.destroy(new RetryableError('Download stalled')), this.STALL_TIMEOUT_MS);
+
+            response.data.on('data', (chunk: Buffer) => {
+                hash.update(chunk);
+                size += chunk.length;
+                this.progress?.addBytes(chunk.length);
+                clearTimeout(stallTimer);
+                stallTimer = setTimeout(() => response.data.destroy(new RetryableError('Download stalled')), this.STALL_TIMEOUT_MS);
+            });
+            response.data.on('error', (error: Error) => {
+                clearTimeout(stallTimer);
+                writer.end();
+                reject(error);
+            });
+            writer.on('finish', () => {
+                clearTimeout(stallTimer);
+                resolve();
             });
+            writer.on('error', reject);
+            response.data.pipe(writer);
+        });
+
+        const expectedSize = contentLength === null ? null : (isResumed ? partSize : 0) + contentLength;
+        if (expectedSize !== null && size < expectedSize) {
+            throw new RetryableError(`Truncated download: received ${size} of ${expectedSize} bytes`);
+        }
 
-            console.log('Downloaded');
-            return {downloaded: true};
+        this.validateDownload(fileLink, partPath, filePath, contentType);
+        fs.renameSync(partPath, filePath);
+        return this.registerDownload(fileLink, filePath, size, hash.digest('hex'));
+    }
+
+    /**
+     * 이전에 받은 파일을 다시 받지 않고 해시만 계산하여 인덱스와 상태에 기록
+     * 기존 파일이 검증에 실패하면 격리 폴더로 옮기고 처음부터 다시 받습니다.
+     */
+    private async registerExistingFile(fileLink: FileLink, filePath: string, contentType?: string): Promise<DownloadOutcome> {
+        try {
+            this.validateDownload(fileLink, filePath, filePath, contentType);
         } catch (error) {
-            console.error(`Failed to download ${fileLink.url}:`, error);
+            if (error instanceof InvalidDocumentError) {
+                throw new RetryableError(`Existing file failed validation (${error.message}), moved to ${error.quarantinePath}; downloading again`);
+            }
             throw error;
         }
 
+        const size = fs.statSync(filePath).size;
+        const sha256 = await HashIndex.hashFile(filePath);
+        this.hashIndex?.register(sha256, filePath, size, fileLink.url);
+        this.stateStore?.markSkipped(fileLink, size, sha256);
+        return 'skipped';
     }
 
-    public async downloadAllFiles(fileLinks: FileLink[]): Promise<void> {
-        if (!fs.existsSync(this.folderPath)) {
-            fs.mkdirSync(this.folderPath, { recursive: true });
-            console.log(`Folder created at ${this.folderPath}`);
-        }
+    /**
+     * 받은 파일을 코퍼스 해시 인덱스와 비교하여 중복 정책을 적용하고 상태를 기록
+     */
+    private registerDownload(fileLink: FileLink, filePath: string, size: number, sha256: string): DownloadOutcome {
+        const original = this.hashIndex?.findByHash(sha256);
 
-        for (let i = 0; i < fileLinks.length; i++) {
-            const fileLink = fileLinks[i];
-            console.log(`Starting download for file #${i + 1}: ${fileLink.filename}`);
-            const {downloaded} = await this.downloadFile(fileLink);
-            if (downloaded) {
-                const delayTime = this.getRandomDelay();
-                await this.delay(delayTime);
+        if (this.hashIndex && original && this.duplicatePolicy !== 'keep' && path.resolve(original.path) !== path.resolve(filePath)) {
+            const kept = HashIndex.materialize(original, filePath, this.duplicatePolicy);
+            this.hashIndex.register(sha256, kept ? filePath : original.path, size, fileLink.url);
+            logger.info(`${fileLink.filename} is a duplicate of ${original.path} (${this.duplicatePolicy})`, { url: fileLink.url, sha256 });
+            if (kept) {
+                this.stateStore?.markDownloaded(fileLink, size, sha256, original.path);
+                return 'downloaded';
             }
+            this.stateStore?.markSkipped(fileLink, size, sha256, original.path);
+            return 'skipped';
+        }
+
+        this.hashIndex?.register(sha256, filePath, size, fileLink.url);
+        this.stateStore?.markDownloaded(fileLink, size, sha256);
+        logger.debug(`Downloaded ${fileLink.filename}`, { url: fileLink.url, size, sha256 });
+        return 'downloaded';
+    }
+
+    /**
+     * 같은 URL의 문서가 이미 코퍼스에 있으면 HTTP 요청 없이 중복 정책에 따라 연결
+     * @returns 처리했으면 결과, 인덱스에 없으면 null
+     */
+    private reuseIndexedDownload(fileLink: FileLink, filePath: string): DownloadOutcome | null {
+        const indexed = this.hashIndex?.findByUrl(fileLink.url);
+        if (!indexed || path.resolve(indexed.path) === path.resolve(filePath)) {
+            return null;
         }
 
-        console.log('All files downloaded successfully.');
+        const kept = HashIndex.materialize(indexed, filePath, this.duplicatePolicy);
+        logger.debug(`Download skipped: ${fileLink.filename} has the same URL as ${indexed.path} (${this.duplicatePolicy})`, { url: fileLink.url });
+        if (kept) {
+            this.stateStore?.markDownloaded(fileLink, indexed.size, indexed.sha256, indexed.path);
+            return 'downloaded';
+        }
+        this.stateStore?.markSkipped(fileLink, indexed.size, indexed.sha256, indexed.path);
+        return 'skipped';
     }
 
-    public async confirmAndDownloadFiles(fileLinks: FileLink[]): Promise<void> {
-        const confirmed = await this.askUserConfirmation(`Download ${fileLinks.length} file links? (y/n): `);
+    private async downloadFile(fileLink: FileLink): Promise<DownloadResult> {
+        const filePath = path.join(this.folderPath, fileLink.filename);
+
+        const state = this.stateStore?.get(fileLink);
+        if (this.stateStore?.isCompleted(fileLink) && (fs.existsSync(filePath) || (state?.duplicateOf && fs.existsSync(state.duplicateOf)))) {
+            logger.debug(`Download skipped: ${fileLink.filename} already completed in crawl state`, { url: fileLink.url });
+            return { fileLink, outcome: 'skipped' };
+        }
+
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        const reused = this.reuseIndexedDownload(fileLink, filePath);
+        if (reused) {
+            return { fileLink, outcome: reused };
+        }
 
-        if (confirmed) {
-            try {
-                await this.downloadAllFiles(fileLinks);
-                console.log('All downloads complete.');
-            } catch (error) {
-                console.error('Error during download process:', error);
+        try {
+            const outcome = await withRetry(
+                () => this.rateLimiter.schedule(fileLink.url, () => this.transferFile(fileLink, filePath), this.rateLimit),
+                this.retryConfig,
+                fileLink.url
+            );
+            return { fileLink, outcome };
+        } catch (error) {
+            if (error instanceof InvalidDocumentError) {
+                logger.warn(`Quarantined ${fileLink.filename} (${error.quarantinePath})`, { url: fileLink.url, error });
+                this.stateStore?.markQuarantined(fileLink, error.message, error.quarantinePath);
+                return { fileLink, outcome: 'quarantined', error: error.message };
             }
+            // 영구 실패한 문서는 실패로 기록하고 나머지 문서 다운로드를 계속 진행
+            const reason = classifyError(error).reason;
+            logger.error(`Failed to download ${fileLink.filename}`, { url: fileLink.url, error: reason });
+            this.stateStore?.markFailed(fileLink, error);
+            return { fileLink, outcome: 'failed', error: reason };
+        }
+    }
+
+    /**
+     * 모든 링크를 다운로드하고 링크 순서대로 문서별 결과를 반환
+     * 한 문서의 실패는 결과에 기록하고 나머지 문서를 계속 받습니다.
+     */
+    public async downloadAllFiles(fileLinks: FileLink[]): Promise<DownloadResult[]> {
+        if (!fs.existsSync(this.folderPath)) {
+            fs.mkdirSync(this.folderPath, { recursive: true });
+            logger.debug(`Folder created at ${this.folderPath}`);
+        }
+
+        // 같은 호스트의 동시 요청 수와 요청 속도는 rateLimiter가 제한하므로 작업자 수는 최대 동시 요청 수로 맞춤
+        const concurrency = fileLinks.reduce((max, link) => Math.max(max, this.rateLimiter.getConfig(link.url, this.rateLimit).maxConcurrency), 1);
+        const results: DownloadResult[] = new Array(fileLinks.length);
+        this.progress?.addQueued(fileLinks.length);
+
+        await runWithConcurrency(fileLinks, concurrency, async (fileLink, i) => {
+            logger.debug(`Starting download for file #${i + 1}: ${fileLink.filename}`, { url: fileLink.url });
+            results[i] = await this.downloadFile(fileLink);
+            this.progress?.addOutcome(results[i].outcome);
+        });
+
+        const counts: Record<DownloadOutcome, number> = { downloaded: 0, skipped: 0, failed: 0, quarantined: 0 };
+        results.forEach(result => counts[result.outcome] += 1);
+        const message = `Download finished: ${counts.downloaded} downloaded, ${counts.skipped} skipped, ${counts.failed} failed, ${counts.quarantined} quarantined`;
+        if (counts.failed > 0 || counts.quarantined > 0) {
+            logger.warn(message, { event: 'download-finished', ...counts });
         } else {
-            console.log('File download cancelled by user.');
+            logger.info(message, { event: 'download-finished', ...counts });
+        }
+        return results;
+    }
+
+    /**
+     * 확인 후 모든 링크를 다운로드
+     * @returns 문서별 결과, 사용자가 취소하면 null
+     */
+    public async confirmAndDownloadFiles(fileLinks: FileLink[]): Promise<DownloadResult[] | null> {
+        const confirmed = await askUserConfirmation(`Download ${fileLinks.length} file links? (y/n): `, this.assumeYes);
+        if (!confirmed) {
+            logger.info('File download cancelled by user');
+            return null;
         }
+        return this.downloadAllFiles(fileLinks);
     }
 }
\ No newline at end of file
@@ -1,51 +1,162 @@
-import fs from 'fs';
-import path from 'path';
-import readline from 'readline';
-import puppeteer from 'puppeteer';
-import { FileLink, FileDownloader } from './FileDownloader';
-
-export class FileLinkFetcher {
-    private outputFilePath: string;
-    private downloadFolderPath: string;
-
-    constructor(
-        private baseUrl: string,
-        private sourceConfig: {sourceName: string, categoryId: string, categoryName: string},
-        private startDate: { year: number, month: number, day: number },
-        private endDate: { year: number, month: number, day: number },
-        private startPage: number,
-        private maxItemsPerPage: number,
-        private downloadPattern: RegExp,
-        private downloadMinDelayMs: number = 0,
-        private downloadMaxDelayMs: number = 0        
-    ) {
-        this.baseUrl = this.baseUrl
-            .replace('{categoryId}', this.sourceConfig.categoryId)
-            .replace('{searchStartYear}', this.startDate.year.toString())
-            .replace('{searchStartMonth}', this.formatNumber(this.startDate.month))
-            .replace('{searchStartDay}', this.formatNumber(this.startDate.day))
-            .replace('{searchEndYear}', this.endDate.year.toString())
-            .replace('{searchEndMonth}', this.formatNumber(this.endDate.month))
-            .replace('{searchEndDay}', this.formatNumber(this.endDate.day))
-            .replace('{maxItemsPerPage}', this.maxItemsPerPage.toString());
-        
-        const dateRange = `${this.formatDate(this.startDate)}-${this.formatDate(this.endDate)}`;
-        this.outputFilePath = `./downloads/${this.sourceConfig.sourceName}-${this.sourceConfig.categoryName}-${dateRange}.json`;
-        this.downloadFolderPath = `./downloads/${this.sourceConfig.sourceName}-${this.sourceConfig.categoryName}-${dateRange}`;
-    }
-
-    private formatDate(date: { year: number, month: number, day: number }): string {
-        return `${date.year}${this.formatNumber(date.month)}${this.formatNumber(date.day)}`;
+import { buildDocumentPath, findExtension, hashDocumentId } from './DocumentPath';
+import { FileLink } from './FileDownloader';
+import { RateLimitConfig } from './HostRateLimiter';
+import { logger } from './Logger';
+import { BrowserPageLoader, ListPage, ListRow, PageAnchor, PageLoader, PageLoadMode, StaticPageLoader } from './PageLoader';
+import { CrawlJob, DocumentRecord, Listing, PageResult, SourceAdapter, SourceConfig, SourceContext } from './SourceAdapter';
+
+export type { ListRow, PageLoadMode } from './PageLoader';
+
+/**
+ * 목록 페이지에서 추출한 문서별 메타데이터 (RAG 필터링용)
+ */
+export interface DocumentMetadata {
+    source: string;
+    category: string;
+    /** 보고서 작성일 (YYYY-MM-DD) */
+    reportDate: string | null;
+    title: string | null;
+    companyName: string | null;
+    /** 종목코드 (6자리) */
+    companyCode: string | null;
+    broker: string | null;
+    analyst: string | null;
+    opinion: string | null;
+    targetPrice: number | null;
+    /** 소스별 정규 문서 ID (다운로드 링크에 붙음) */
+    documentId?: string;
+    /** 목록 링크에 표시된 원래 파일명 */
+    originalFilename?: string;
+}
+
+export type RowParser = (row: ListRow) => Partial<DocumentMetadata>;
+
+/**
+ * 목록의 마지막 페이지 판단 방식
+ * - pageSize: 페이지의 다운로드 링크 수가 maxItemsPerPage보다 적으면 마지막 페이지
+ * - cursor: pageParam이 다음 페이지 번호인 링크의 cursorParam 값을 다음 요청 URL의 {cursor}에 넣음
+ *   (cursorParam이 있는 링크가 하나도 없으면 pageSize 방식)
+ * 전체 건수로 판단하는 DART, OpenDART는 어댑터에서 직접 처리합니다.
+ */
+export type PaginationStrategy =
+    | { type: 'pageSize' }
+    | { type: 'cursor', pageParam: string, cursorParam: string, initialCursor: string };
+
+/**
+ * 게시판형 목록 소스 정의
+ * URL 템플릿 자리표시자: {categoryId}, {searchStartYear}, {searchStartMonth}, {searchStartDay},
+ * {searchEndYear}, {searchEndMonth}, {searchEndDay}, {maxItemsPerPage}, {curPage}, {cursor}
+ */
+export interface ListSourceDefinition {
+    baseUrl: string;
+    categories: SourceConfig[];
+    startPage: number;
+    maxItemsPerPage: number;
+    pagination: PaginationStrategy;
+    downloadPattern: RegExp;
+    /** 다운로드 URL에서 정규 문서 ID를 찾는 패턴 (첫 번째 그룹, 찾지 못하면 URL 해시) */
+    documentIdPattern: RegExp;
+    rowParser: RowParser;
+    pageLoadMode: PageLoadMode;
+    rateLimit: RateLimitConfig;
+}
+
+/**
+ * 헤더 이름으로 셀을 찾음 (헤더가 후보 이름 중 하나를 포함하는 첫 번째 열)
+ */
+export function getCellByHeader(row: ListRow, names: string[]): { text: string, linkText: string } | null {
+    const index = row.headers.findIndex(header => names.some(name => header.includes(name)));
+    return index >= 0 && index < row.cells.length ? row.cells[index] : null;
+}
+
+/**
+ * "2024-05-31", "2024.05.31", "2024/5/31", "24.05.31" 형식의 날짜를 YYYY-MM-DD로 변환
+ */
+export function normalizeDate(text: string | undefined): string | null {
+    const match = /(\d{2,4})[.\-/](\d{1,2})[.\-/](\d{1,2})/.exec(text ?? '');
+    if (!match) {
+        return null;
+    }
+    const year = match[1].length === 2 ? `20${match[1]}` : match[1];
+    return `${year}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+}
+
+/**
+ * "85,000", "85,000원" 형식의 가격을 숫자로 변환 (0 또는 값이 없으면 null)
+ */
+export function parsePrice(text: string | undefined): number | null {
+    const digits = (text ?? '').replace(/[^\d]/g, '');
+    const price = digits ? parseInt(digits, 10) : 0;
+    return price > 0 ? price : null;
+}
+
+/**
+ * "삼성전자(005930) 제목" 형식에서 기업명, 종목코드, 나머지 제목을 분리
+ */
+export function splitCompanyFromTitle(title: string): { companyName: string | null, companyCode: string | null, rest: string } {
+    const match = /^\s*([^()]+?)\s*\((\d{6}|[A-Z0-9]{6})\)\s*[:\-]?\s*(.*)$/.exec(title);
+    if (!match) {
+        return { companyName: null, companyCode: null, rest: title };
+    }
+    return { companyName: match[1], companyCode: match[2], rest: match[3] };
+}
+
+/**
+ * 카테고리 ID 또는 이름으로 소스 카테고리를 찾음 (없으면 첫 번째 카테고리)
+ */
+export function findCategory(categories: SourceConfig[], key: string | undefined): SourceConfig {
+    if (!key) {
+        return categories[0];
+    }
+    const category = categories.find(c => c.categoryId === key || c.categoryName === key);
+    if (!category) {
+        const available = categories.map(c => `${c.categoryId}(${c.categoryName})`).join(', ');
+        throw new Error(`Unknown category: ${key} (available: ${available})`);
+    }
+    return category;
+}
+
+/**
+ * 게시판형 목록 페이지 소스 어댑터 (한경 컨센서스, 미래에셋증권 등)
+ * 목록 URL 템플릿, 다운로드 링크 패턴, 행 파서만 정의하면 새 소스를 추가할 수 있습니다.
+ */
+export class FileLinkFetcher implements SourceAdapter<DocumentMetadata> {
+    public readonly rateLimit: RateLimitConfig;
+    public readonly firstPage: number;
+    private pageLoadMode: PageLoadMode;
+    private pageLoader: PageLoader | null = null;
+
+    constructor(private definition: ListSourceDefinition) {
+        this.rateLimit = definition.rateLimit;
+        this.firstPage = definition.startPage;
+        this.pageLoadMode = definition.pageLoadMode;
     }
 
     private formatNumber(num: number): string {
         return num.toString().padStart(2, '0');
     }
 
-    private extractFileUrl(href: string): string | null {
-        const match = href.match(this.downloadPattern);
+    private buildPageUrl(listing: Listing, page: number, cursor: string | undefined): string {
+        const { startDate, endDate } = listing;
+        const { pagination } = this.definition;
+        const pageCursor = pagination.type === 'cursor' ? cursor ?? pagination.initialCursor : '';
+        return this.definition.baseUrl
+            .replace('{categoryId}', listing.sourceConfig.categoryId)
+            .replace('{searchStartYear}', startDate.year.toString())
+            .replace('{searchStartMonth}', this.formatNumber(startDate.month))
+            .replace('{searchStartDay}', this.formatNumber(startDate.day))
+            .replace('{searchEndYear}', endDate.year.toString())
+            .replace('{searchEndMonth}', this.formatNumber(endDate.month))
+            .replace('{searchEndDay}', this.formatNumber(endDate.day))
+            .replace('{maxItemsPerPage}', this.definition.maxItemsPerPage.toString())
+            .replace('{curPage}', page.toString())
+            .replace('{cursor}', encodeURIComponent(pageCursor));
+    }
+
+    private extractFileUrl(href: string, pageUrl: string): string | null {
+        const match = href.match(this.definition.downloadPattern);
         if (match) {
-            return match[0].startsWith('http') ? match[0] : new URL(match[0], this.baseUrl).href;
+            return match[0].startsWith('http') ? match[0] : new URL(match[0], pageUrl).href;
         }
         return null;
     }
@@ -56,118 +167,165 @@ export class FileLinkFetcher {
         return match ? match[1] : null;
     }
 
-    private async getFileLinksFromPage(pageUrl: string): Promise<FileLink[]> {
-        const fileLinks: FileLink[] = [];
-        const browser = await puppeteer.launch();
-        const page = await browser.newPage();
-
+    /**
+     * 링크 제목에 파일명이 없을 때 원래 파일명 대신 기록할 URL 경로의 마지막 구간 (없으면 null)
+     */
+    private extractFileNameFromUrl(fileUrl: string): string | null {
+        const segment = new URL(fileUrl).pathname.split('/').pop() ?? '';
         try {
-            await page.goto(pageUrl, { waitUntil: 'networkidle2' });
-            const links = await page.evaluate(() => {
-                const anchorElements = Array.from(document.querySelectorAll('a'));
-                return anchorElements.map(anchor => ({
-                    href: anchor.getAttribute('href') || '',
-                    title: anchor.getAttribute('title') || ''
-                }));
-            });
-
-            for (const link of links) {
-                const fileUrl = this.extractFileUrl(link.href);
-                const filename = this.extractFileNameFromTitle(link.title);
-                if (fileUrl && filename) {
-                    fileLinks.push({ url: fileUrl, filename });
-                }
-            }
-        } catch (error) {
-            console.error(`Failed to fetch or parse page ${pageUrl}:`, error);
-        } finally {
-            await browser.close();
+            return decodeURIComponent(segment) || null;
+        } catch {
+            return segment || null;
         }
+    }
 
-        return fileLinks;
+    /**
+     * 다운로드 링크를 코퍼스의 정규 경로({소스}/{카테고리}/{yyyy}/{mm}/{문서 ID}.{확장자})로 변환
+     * 원래 파일명은 같은 제목의 보고서끼리 겹칠 수 있으므로 메타데이터에만 남깁니다.
+     */
+    private createFileLink(fileUrl: string, originalFilename: string | null, sourceConfig: SourceConfig, metadata: DocumentMetadata): FileLink {
+        const documentId = this.definition.documentIdPattern.exec(fileUrl)?.[1] ?? hashDocumentId(fileUrl);
+        const filename = buildDocumentPath({
+            source: sourceConfig.sourceName,
+            category: sourceConfig.categoryName,
+            date: metadata.reportDate,
+            id: documentId,
+            extension: findExtension(originalFilename, fileUrl),
+        });
+        return { url: fileUrl, filename, metadata: { documentId, originalFilename } };
     }
 
-    private saveFileLinksToJson(fileLinks: FileLink[]): void {
-        const folderPath = path.dirname(this.outputFilePath);
+    private createMetadata(sourceConfig: SourceConfig, row: ListRow): DocumentMetadata {
+        const parsed = row.cells.length > 0 ? this.definition.rowParser(row) : {};
+        return {
+            source: sourceConfig.sourceName,
+            category: sourceConfig.categoryName,
+            reportDate: null,
+            title: null,
+            companyName: null,
+            companyCode: null,
+            broker: null,
+            analyst: null,
+            opinion: null,
+            targetPrice: null,
+            ...parsed,
+        };
+    }
 
-        if (!fs.existsSync(folderPath)) {
-            fs.mkdirSync(folderPath, { recursive: true });
-            console.log(`Folder created at ${folderPath}`);
+    private getPageLoader(context: SourceContext): PageLoader {
+        if (!this.pageLoader) {
+            const { rateLimiter, rateLimit, retry } = context.downloadOptions;
+            this.pageLoader = this.pageLoadMode === 'static'
+                ? new StaticPageLoader(rateLimiter, rateLimit, retry)
+                : new BrowserPageLoader(rateLimiter, rateLimit, retry);
         }
+        return this.pageLoader;
+    }
 
-        const jsonLines = '[\n' + fileLinks.map(link => `  ${JSON.stringify(link)}`).join(',\n') + '\n]';
-        fs.writeFileSync(this.outputFilePath, jsonLines, 'utf8');
-        console.log(`File links saved to ${this.outputFilePath}`);
+    public async discoverListings(job: CrawlJob): Promise<Listing[]> {
+        const sourceConfig = findCategory(this.definition.categories, job.category);
+        this.pageLoadMode = job.pageLoadMode ?? this.definition.pageLoadMode;
+        return [{
+            name: `${sourceConfig.sourceName}-${sourceConfig.categoryName}`,
+            sourceConfig,
+            startDate: job.startDate,
+            endDate: job.endDate,
+        }];
     }
 
-    private async askUserConfirmation(message: string): Promise<boolean> {
-        const rl = readline.createInterface({input: process.stdin, output: process.stdout});
-    
-        return new Promise(resolve => {
-            rl.question(message, answer => {
-                rl.close();
-                resolve(answer.trim().toLowerCase() === 'y');
-            });
-        });
+    private parseUrl(href: string, pageUrl: string): URL | null {
+        try {
+            return new URL(href, pageUrl);
+        } catch {
+            return null;
+        }
     }
 
-    private async fetchAllFileLinks(): Promise<FileLink[]> {
-        const existingFilePath = this.outputFilePath;
-        let fileLinks: FileLink[] = [];
-    
-        if (fs.existsSync(existingFilePath)) {
-            console.log(`Existing JSON file found: ${existingFilePath}`);
-            
-            const userChoice = await this.askUserConfirmation("A file with existing download links was found. Do you want to use it? (y = use existing, n = fetch new): ");
-    
-            if (userChoice) {
-                fileLinks = JSON.parse(fs.readFileSync(existingFilePath, 'utf8'));
-                console.log(`Loaded ${fileLinks.length} file links from ${existingFilePath}`);
-                return fileLinks;
+    /**
+     * 소스의 페이지 판단 방식으로 다음 페이지 여부를 정함
+     * 다운로드 링크가 한 페이지 가득 있는데 마지막 페이지로 판단하면 목록 구조가 바뀌었을 수 있으므로 경고합니다.
+     */
+    private detectNextPage(listPage: ListPage, page: number, linkCount: number, pageUrl: string): Pick<PageResult, 'hasNextPage' | 'nextCursor'> {
+        const { pagination, maxItemsPerPage } = this.definition;
+        const fullPage = linkCount >= maxItemsPerPage;
+        let result: Pick<PageResult, 'hasNextPage' | 'nextCursor'> = { hasNextPage: fullPage };
+
+        if (pagination.type === 'cursor') {
+            const pageLinks = listPage.anchors
+                .map(anchor => this.parseUrl(anchor.href, pageUrl))
+                .filter((url): url is URL => url !== null && url.searchParams.has(pagination.cursorParam));
+            if (pageLinks.length > 0) {
+                const nextLink = pageLinks.find(url => url.searchParams.get(pagination.pageParam) === (page + 1).toString());
+                result = { hasNextPage: nextLink !== undefined, nextCursor: nextLink?.searchParams.get(pagination.cursorParam) ?? undefined };
             } else {
-                console.log("Fetching new download links...");
+                logger.warn(`No ${pagination.cursorParam} page links found on ${pageUrl}; deciding the last page by page size`);
             }
         }
-    
-        let page = this.startPage;
-        let lastPageLinks: FileLink[] = [];
-    
-        while (true) {
-            const pageUrl = this.baseUrl.replace('{curPage}', page.toString());
-            console.log(`\nFetching page: ${pageUrl}`);
-    
-            const pageFileLinks = await this.getFileLinksFromPage(pageUrl);
-            console.log(`\n${page} page file links: ${pageFileLinks.length}`);
-    
-            const isDuplicatePage = lastPageLinks.length === pageFileLinks.length && lastPageLinks.every((link, index) =>
-                link.url === pageFileLinks[index].url && link.filename === pageFileLinks[index].filename
-            );
-    
-            if (isDuplicatePage) {
-                console.log(`Stopping fetch due to duplicate page detected at page ${page}`);
-                break;
+
+        if (!result.hasNextPage && fullPage && pagination.type !== 'pageSize') {
+            logger.warn(`Page ${page} has ${linkCount} download links (a full page) but ${pagination.type} pagination found no next page; the list markup may have changed`);
+        } else if (!result.hasNextPage) {
+            logger.debug(`Stopping fetch: page ${page} is the last page (${linkCount} download links)`);
+        }
+        return result;
+    }
+
+    public async fetchPage(listing: Listing, page: number, context: SourceContext, cursor?: string): Promise<PageResult<DocumentMetadata>> {
+        const pageUrl = this.buildPageUrl(listing, page, cursor);
+        const records: DocumentRecord<DocumentMetadata>[] = [];
+        logger.debug(`Fetching page: ${pageUrl}`);
+
+        let listPage: ListPage;
+        try {
+            listPage = await this.getPageLoader(context).loadPage(pageUrl);
+        } catch (error) {
+            logger.error(`Failed to fetch page ${pageUrl}`, { error });
+            throw error;
+        }
+
+        // 페이지 끝 판단은 파일명을 알 수 없는 링크도 포함한 다운로드 링크 수로 함
+        const downloadLinks = new Map<string, PageAnchor>();
+        for (const link of listPage.anchors) {
+            const fileUrl = this.extractFileUrl(link.href, pageUrl);
+            if (fileUrl && !downloadLinks.has(fileUrl)) {
+                downloadLinks.set(fileUrl, link);
             }
-    
-            fileLinks.push(...pageFileLinks);
-            lastPageLinks = pageFileLinks;
-            page += 1;
-    
-            if (pageFileLinks.length < this.maxItemsPerPage) {
-                console.log(`Stopping fetch as file links length is less than ${this.maxItemsPerPage}`);
-                break;
+        }
+
+        // 저장 경로는 문서 ID와 URL로 정하므로 제목에 파일명이 없는 링크도 URL의 파일명으로 수집
+        let untitledCount = 0;
+        for (const [fileUrl, link] of downloadLinks) {
+            let filename = this.extractFileNameFromTitle(link.title);
+            if (!filename) {
+                untitledCount += 1;
+                filename = this.extractFileNameFromUrl(fileUrl);
             }
+            const metadata = this.createMetadata(listing.sourceConfig, link.row);
+            records.push({
+                key: fileUrl,
+                metadata,
+                date: metadata.reportDate,
+                fileLinks: [this.createFileLink(fileUrl, filename, listing.sourceConfig, metadata)],
+            });
+        }
+        if (untitledCount > 0) {
+            logger.debug(`${untitledCount} download links on page ${page} have no file name in their title; using the URL file name`);
+        }
+
+        return { records, ...this.detectNextPage(listPage, page, downloadLinks.size, pageUrl) };
+    }
+
+    public async resolveDownloads(record: DocumentRecord<DocumentMetadata>): Promise<FileLink[]> {
+        return record.fileLinks ?? [];
+    }
+
+    /**
+     * 목록 페이지 로더(브라우저 등)를 정리. 다시 페이지를 요청하면 새로 생성합니다.
+     */
+    public async close(): Promise<void> {
+        if (this.pageLoader) {
+            await this.pageLoader.close();
+            this.pageLoader = null;
         }
-    
-        console.log(`fileLinks: ${fileLinks}`);
-        this.saveFileLinksToJson(fileLinks);
-        return fileLinks;
-    }
-    
-    public async fetchAndDownloadFileLinks(): Promise<void> {
-        const fileLinks = await this.fetchAllFileLinks();
-        console.log(`\n${fileLinks.length} file links found: `, fileLinks);
-
-        const downloader = new FileDownloader(this.downloadFolderPath, this.downloadMinDelayMs, this.downloadMaxDelayMs);
-        await downloader.confirmAndDownloadFiles(fileLinks);
     }
 }
@@ -0,0 +1,126 @@
+/**
+ * DART 공시유형 이름별 상세 유형 코드 (DART 검색의 publicType, OpenDART의 pblntf_detail_ty)
+ */
+export const DISCLOSURE_TYPES: Record<string, string[]> = {
+    '정기공시': ['A001', 'A002', 'A003', 'A004', 'A005'],
+    '사업보고서': ['A001'],
+    '반기보고서': ['A002'],
+    '분기보고서': ['A003'],
+    '주요사항보고': ['B001', 'B002', 'B003'],
+    '주요사항보고서': ['B001'],
+    '발행공시': ['C001', 'C002', 'C003', 'C004', 'C005', 'C006', 'C007', 'C008', 'C009', 'C010', 'C011'],
+    '지분공시': ['D001', 'D002', 'D003', 'D004', 'D005'],
+    '기타공시': ['E001', 'E002', 'E003', 'E004', 'E005', 'E006', 'E007', 'E008', 'E009'],
+    '외부감사관련': ['F001', 'F002', 'F003', 'F004', 'F005'],
+    '감사보고서': ['F001', 'F002'],
+    '펀드공시': ['G001', 'G002', 'G003'],
+    '자산유동화': ['H001', 'H002', 'H003', 'H004', 'H005', 'H006'],
+    '거래소공시': ['I001', 'I002', 'I003', 'I004', 'I005', 'I006'],
+    '공정위공시': ['J001', 'J002', 'J004', 'J005', 'J006', 'J008', 'J009'],
+};
+
+/** 공시유형 대분류 (상세 코드의 첫 글자) */
+const DISCLOSURE_GROUPS: Record<string, string> = {
+    A: '정기공시',
+    B: '주요사항보고',
+    C: '발행공시',
+    D: '지분공시',
+    E: '기타공시',
+    F: '외부감사관련',
+    G: '펀드공시',
+    H: '자산유동화',
+    I: '거래소공시',
+    J: '공정위공시',
+};
+
+/**
+ * DART 수집 범위를 정하는 공시 필터 (실행 기록에 그대로 저장되어 같은 코퍼스 구간을 다시 만들 때 사용)
+ */
+export interface FilingFilter {
+    /** 지정한 공시유형 이름 또는 코드 (예: '정기공시', 'A001', 'B') */
+    disclosureTypes: string[];
+    /** 공시유형을 변환한 상세 유형 코드 (비어 있으면 전체) */
+    publicTypes: string[];
+    /** 보고서명/제출인 포함, 제외 정규식 (대소문자 무시) */
+    includeReportName?: string;
+    excludeReportName?: string;
+    includeSubmitter?: string;
+    excludeSubmitter?: string;
+}
+
+/**
+ * 공시유형 이름, 대분류 코드(A~J), 상세 코드를 상세 유형 코드 목록으로 변환
+ */
+export function resolveDisclosureTypes(names: string[]): string[] {
+    const codes = names.flatMap(name => {
+        const trimmed = name.trim();
+        if (DISCLOSURE_TYPES[trimmed]) {
+            return DISCLOSURE_TYPES[trimmed];
+        }
+        const upper = trimmed.toUpperCase();
+        if (DISCLOSURE_GROUPS[upper]) {
+            return DISCLOSURE_TYPES[DISCLOSURE_GROUPS[upper]];
+        }
+        if (/^[A-J]\d{3}$/.test(upper)) {
+            return [upper];
+        }
+        throw new Error(`Unknown disclosure type: ${name} (available: ${Object.keys(DISCLOSURE_TYPES).join(', ')}, A-J, or a code such as A001)`);
+    });
+    return Array.from(new Set(codes));
+}
+
+/**
+ * 코드 목록이 대분류 하나 전체와 같으면 그 대분류 코드를 반환 (OpenDART의 pblntf_ty 조회용)
+ */
+export function findDisclosureGroup(codes: string[]): string | null {
+    const group = Object.keys(DISCLOSURE_GROUPS).find(key => {
+        const groupCodes = DISCLOSURE_TYPES[DISCLOSURE_GROUPS[key]];
+        return groupCodes.length === codes.length && groupCodes.every(code => codes.includes(code));
+    });
+    return group ?? null;
+}
+
+function compilePattern(pattern: string | undefined, optionName: string): RegExp | null {
+    if (pattern === undefined) {
+        return null;
+    }
+    try {
+        return new RegExp(pattern, 'i');
+    } catch (error) {
+        throw new Error(`Invalid ${optionName} pattern: ${pattern} (${error instanceof Error ? error.message : error})`);
+    }
+}
+
+/**
+ * 공시유형과 보고서명/제출인 정규식으로 FilingFilter 생성 (필터가 없으면 undefined, 잘못된 공시유형이나 정규식이면 오류)
+ */
+export function buildFilingFilter(options: Omit<FilingFilter, 'publicTypes'>): FilingFilter | undefined {
+    const filter: FilingFilter = {
+        disclosureTypes: options.disclosureTypes,
+        publicTypes: resolveDisclosureTypes(options.disclosureTypes),
+        includeReportName: options.includeReportName,
+        excludeReportName: options.excludeReportName,
+        includeSubmitter: options.includeSubmitter,
+        excludeSubmitter: options.excludeSubmitter,
+    };
+    if (filter.disclosureTypes.length === 0 && !filter.includeReportName && !filter.excludeReportName && !filter.includeSubmitter && !filter.excludeSubmitter) {
+        return undefined;
+    }
+    createFilingMatcher(filter);
+    return filter;
+}
+
+/**
+ * 보고서명과 제출인 정규식 필터로 공시 포함 여부를 판단하는 함수 생성 (잘못된 정규식이면 오류)
+ */
+export function createFilingMatcher(filter: FilingFilter | undefined): (item: { reportName: string, submitter: string }) => boolean {
+    const includeReport = compilePattern(filter?.includeReportName, '--include-report');
+    const excludeReport = compilePattern(filter?.excludeReportName, '--exclude-report');
+    const includeSubmitter = compilePattern(filter?.includeSubmitter, '--include-submitter');
+    const excludeSubmitter = compilePattern(filter?.excludeSubmitter, '--exclude-submitter');
+
+    return item => (!includeReport || includeReport.test(item.reportName))
+        && (!excludeReport || !excludeReport.test(item.reportName))
+        && (!includeSubmitter || includeSubmitter.test(item.submitter))
+        && (!excludeSubmitter || !excludeSubmitter.test(item.submitter));
+}
@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { QUARANTINE_FOLDER } from './DocumentValidator';
+import { logger } from './Logger';
+
+/**
+ * 이미 코퍼스에 있는 문서와 바이트가 동일한 파일을 받았을 때의 처리 방식
+ * - link: 기존 파일에 대한 하드 링크로 대체 (하드 링크 불가 시 복사)
+ * - skip: 중복 파일을 저장하지 않고 기존 파일 경로만 기록
+ * - keep: 중복 여부와 관계없이 그대로 저장
+ */
+export type DuplicatePolicy = 'link' | 'skip' | 'keep';
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['link', 'skip', 'keep'];
+
+export interface HashIndexEntry {
+    sha256: string;
+    path: string;
+    size: number;
+    url?: string;
+    indexedAt: string;
+}
+
+/** 코퍼스 루트 안의 해시 인덱스 파일 이름 */
+export const HASH_INDEX_FILENAME = 'hash-index.jsonl';
+export const DEFAULT_HASH_INDEX_PATH = `./downloads/${HASH_INDEX_FILENAME}`;
+
+/**
+ * 모든 소스와 기간 폴더에 걸친 코퍼스 전체 SHA-256 인덱스 (append-only JSONL)
+ * 해시별로 처음 등록된 파일을 원본으로 사용하며, URL로도 조회할 수 있어 이미 받은 문서는 다시 요청하지 않습니다.
+ */
+export class HashIndex {
+    private byHash = new Map<string, HashIndexEntry>();
+    private byUrl = new Map<string, HashIndexEntry>();
+    private indexedPaths = new Set<string>();
+
+    constructor(private filePath: string = DEFAULT_HASH_INDEX_PATH) {
+        this.load();
+    }
+
+    public static async hashFile(filePath: string): Promise<string> {
+        const hash = crypto.createHash('sha256');
+        for await (const chunk of fs.createReadStream(filePath)) {
+            hash.update(chunk as Buffer);
+        }
+        return hash.digest('hex');
+    }
+
+    private load(): void {
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+
+        for (const line of fs.readFileSync(this.filePath, 'utf8').split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                this.apply(JSON.parse(line) as HashIndexEntry);
+            } catch {
+                logger.warn(`Ignoring malformed hash index line in ${this.filePath}`);
+            }
+        }
+        logger.debug(`Loaded hash index: ${this.byHash.size} documents from ${this.filePath}`);
+    }
+
+    private apply(entry: HashIndexEntry): void {
+        if (!this.byHash.has(entry.sha256)) {
+            this.byHash.set(entry.sha256, entry);
+        }
+        if (entry.url) {
+            this.byUrl.set(entry.url, entry);
+        }
+        this.indexedPaths.add(path.resolve(entry.path));
+    }
+
+    private isAvailable(entry: HashIndexEntry | undefined): entry is HashIndexEntry {
+        return entry !== undefined && fs.existsSync(entry.path);
+    }
+
+    public findByHash(sha256: string): HashIndexEntry | undefined {
+        const entry = this.byHash.get(sha256);
+        return this.isAvailable(entry) ? entry : undefined;
+    }
+
+    public findByUrl(url: string): HashIndexEntry | undefined {
+        const entry = this.byUrl.get(url);
+        return this.isAvailable(entry) ? entry : undefined;
+    }
+
+    public register(sha256: string, filePath: string, size: number, url?: string): void {
+        const known = this.byHash.get(sha256);
+        if (known && known.path === filePath && known.url === url) {
+            return;
+        }
+        // 원본 파일이 삭제된 해시는 새 파일을 원본으로 다시 등록
+        if (known && !fs.existsSync(known.path)) {
+            this.byHash.delete(sha256);
+        }
+
+        const entry: HashIndexEntry = { sha256, path: filePath, size, url, indexedAt: new Date().toISOString() };
+        const folderPath = path.dirname(this.filePath);
+        if (!fs.existsSync(folderPath)) {
+            fs.mkdirSync(folderPath, { recursive: true });
+        }
+        fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+        this.apply(entry);
+    }
+
+    /**
+     * 중복 정책에 따라 targetPath 위치에 원본 파일을 연결
+     * @returns targetPath에 파일이 존재하면 true (skip 정책이면 false)
+     */
+    public static materialize(original: HashIndexEntry, targetPath: string, policy: DuplicatePolicy): boolean {
+        if (path.resolve(original.path) === path.resolve(targetPath)) {
+            return true;
+        }
+        if (fs.existsSync(targetPath)) {
+            fs.unlinkSync(targetPath);
+        }
+        if (policy === 'skip') {
+            return false;
+        }
+        if (policy === 'link') {
+            try {
+                fs.linkSync(original.path, targetPath);
+                return true;
+            } catch (error) {
+                logger.warn(`Hard link failed (${(error as NodeJS.ErrnoException).code}), copying instead: ${targetPath}`);
+            }
+        }
+        fs.copyFileSync(original.path, targetPath);
+        return true;
+    }
+
+    /**
+     * 폴더 아래의 기존 문서 파일을 모두 해시하여 인덱스에 등록 (격리 폴더, JSON 메타데이터와 미완성 .part 파일 제외)
+     * @returns 새로 등록한 파일 수
+     */
+    public async indexDirectory(rootPath: string): Promise<number> {
+        let count = 0;
+        const quarantinePath = path.resolve(rootPath, QUARANTINE_FOLDER);
+
+        const walk = async (folderPath: string): Promise<void> => {
+            for (const entry of fs.readdirSync(folderPath, { withFileTypes: true })) {
+                const entryPath = path.join(folderPath, entry.name);
+                if (entry.isDirectory()) {
+                    if (path.resolve(entryPath) !== quarantinePath) {
+                        await walk(entryPath);
+                    }
+                } else if (entry.isFile() && !/\.(json|jsonl|part|tmp)$/i.test(entry.name) && !this.indexedPaths.has(path.resolve(entryPath))) {
+                    const sha256 = await HashIndex.hashFile(entryPath);
+                    this.register(sha256, entryPath, fs.statSync(entryPath).size);
+                    count += 1;
+                }
+            }
+        };
+
+        await walk(rootPath);
+        return count;
+    }
+}
@@ -0,0 +1,120 @@
+export interface RateLimitConfig {
+    /** 호스트별 초당 요청 수 (토큰 충전 속도) */
+    requestsPerSecond: number;
+    /** 호스트별 최대 동시 요청 수 */
+    maxConcurrency: number;
+    /** 요청 간격에 더해지는 최대 랜덤 지연 시간 (ms) */
+    jitterMs: number;
+}
+
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = { requestsPerSecond: 1, maxConcurrency: 1, jitterMs: 500 };
+
+/**
+ * 단일 호스트에 대한 토큰 버킷과 동시 실행 슬롯
+ */
+class HostBucket {
+    private tokens = 1;
+    private lastRefillAt = Date.now();
+    private active = 0;
+    private slotWaiters: (() => void)[] = [];
+    private tokenQueue: Promise<void> = Promise.resolve();
+
+    constructor(public readonly config: RateLimitConfig) {}
+
+    private async delay(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(1, this.tokens + (now - this.lastRefillAt) / 1000 * this.config.requestsPerSecond);
+        this.lastRefillAt = now;
+    }
+
+    private async acquireSlot(): Promise<void> {
+        if (this.active < this.config.maxConcurrency) {
+            this.active += 1;
+            return;
+        }
+        // 반환되는 슬롯을 그대로 넘겨받으므로 active 값은 변하지 않음
+        await new Promise<void>(resolve => this.slotWaiters.push(resolve));
+    }
+
+    private async waitForToken(): Promise<void> {
+        this.refill();
+        if (this.tokens < 1) {
+            await this.delay((1 - this.tokens) / this.config.requestsPerSecond * 1000);
+            this.refill();
+        }
+        this.tokens -= 1;
+
+        if (this.config.jitterMs > 0) {
+            await this.delay(Math.floor(Math.random() * (this.config.jitterMs + 1)));
+        }
+    }
+
+    public async acquire(): Promise<void> {
+        await this.acquireSlot();
+
+        // 토큰 대기는 도착 순서대로 직렬화하여 동시에 여러 요청이 같은 토큰을 쓰지 않도록 함
+        const turn = this.tokenQueue.then(() => this.waitForToken());
+        this.tokenQueue = turn.catch(() => undefined);
+        await turn;
+    }
+
+    public release(): void {
+        const next = this.slotWaiters.shift();
+        if (next) {
+            next();
+        } else {
+            this.active -= 1;
+        }
+    }
+}
+
+/**
+ * 호스트별 토큰 버킷 기반 요청 속도 제한기
+ * 여러 소스를 동시에 수집하더라도 각 호스트에는 설정된 속도와 동시 요청 수만큼만 요청합니다.
+ */
+export class HostRateLimiter {
+    private buckets = new Map<string, HostBucket>();
+
+    constructor(private defaultConfig: RateLimitConfig = DEFAULT_RATE_LIMIT) {}
+
+    private getBucket(url: string, config?: RateLimitConfig): HostBucket {
+        const host = new URL(url).host;
+        let bucket = this.buckets.get(host);
+        if (!bucket) {
+            bucket = new HostBucket(config ?? this.defaultConfig);
+            this.buckets.set(host, bucket);
+        }
+        return bucket;
+    }
+
+    /**
+     * 호스트의 속도 제한 설정을 지정 (이미 요청이 시작된 호스트에는 적용되지 않음)
+     */
+    public configureHost(url: string, config: RateLimitConfig): void {
+        this.getBucket(url, config);
+    }
+
+    public getConfig(url: string, config?: RateLimitConfig): RateLimitConfig {
+        return this.getBucket(url, config).config;
+    }
+
+    /**
+     * 호스트의 토큰과 동시 실행 슬롯을 확보한 뒤 작업을 실행
+     * @param url 요청 대상 URL (호스트 단위로 제한)
+     * @param task 실행할 요청 작업
+     * @param config 호스트가 처음 사용될 때 적용할 설정 (없으면 기본값)
+     */
+    public async schedule<T>(url: string, task: () => Promise<T>, config?: RateLimitConfig): Promise<T> {
+        const bucket = this.getBucket(url, config);
+        await bucket.acquire();
+        try {
+            return await task();
+        } finally {
+            bucket.release();
+        }
+    }
+}
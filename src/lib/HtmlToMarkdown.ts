@@ -0,0 +1,115 @@
+import { load } from 'cheerio';
+
+/** cheerio 선택 결과 (노드 종류 구분 없이) */
+type Selection = ReturnType<ReturnType<typeof load>>;
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'title', 'noscript', 'iframe', 'button', 'select', 'input']);
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'center', 'blockquote', 'pre', 'form', 'dl', 'dt', 'dd']);
+const BLOCK_BREAK = '\n\n';
+
+function collapseWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ');
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+}
+
+/**
+ * HTML을 Markdown으로 변환 (제목, 문단, 목록, 굵은 글씨, 표 유지)
+ * 병합 셀(colspan/rowspan)은 빈 칸으로 채워 열을 맞추고, 한 칸짜리 표(테두리 상자)는 문단으로 풉니다.
+ */
+export function htmlToMarkdown(html: string): string {
+    const $ = load(html);
+
+    const renderChildren = (selection: Selection): string =>
+        selection.contents().toArray().map(node => render($(node))).join('');
+
+    const renderTable = (table: Selection): string => {
+        const rows: string[][] = [];
+        // 위 행의 rowspan으로 아직 채워야 하는 열별 남은 행 수
+        const pendingRows: number[] = [];
+
+        const rowElements = table.find('tr').toArray().filter(tr => $(tr).closest('table').is(table));
+        for (const tr of rowElements) {
+            const row: string[] = [];
+            const fillSpanned = () => {
+                while ((pendingRows[row.length] ?? 0) > 0) {
+                    pendingRows[row.length] -= 1;
+                    row.push('');
+                }
+            };
+
+            for (const cell of $(tr).children('th, td').toArray()) {
+                fillSpanned();
+                const colspan = Math.max(1, parseInt($(cell).attr('colspan') ?? '1') || 1);
+                const rowspan = Math.max(1, parseInt($(cell).attr('rowspan') ?? '1') || 1);
+                for (let i = 0; i < colspan; i++) {
+                    pendingRows[row.length] = rowspan - 1;
+                    row.push(i === 0 ? escapeCell(renderChildren($(cell))) : '');
+                }
+            }
+            fillSpanned();
+            rows.push(row);
+        }
+
+        const width = Math.max(0, ...rows.map(row => row.length));
+        if (width === 0) {
+            return '';
+        }
+        if (width === 1) {
+            return BLOCK_BREAK + rows.map(row => row[0]).filter(text => text.length > 0).join(BLOCK_BREAK) + BLOCK_BREAK;
+        }
+
+        const lines = rows.map(row => `| ${Array.from({ length: width }, (_, i) => row[i] ?? '').join(' | ')} |`);
+        lines.splice(1, 0, `|${' --- |'.repeat(width)}`);
+        return BLOCK_BREAK + lines.join('\n') + BLOCK_BREAK;
+    };
+
+    const renderList = (list: Selection, ordered: boolean): string => {
+        const items = list.children('li').toArray().map((li, i) => {
+            const text = renderChildren($(li)).replace(/\s*\n\s*/g, ' ').trim();
+            return `${ordered ? `${i + 1}.` : '-'} ${text}`;
+        });
+        return BLOCK_BREAK + items.join('\n') + BLOCK_BREAK;
+    };
+
+    const render = (selection: Selection): string => {
+        const node = selection[0];
+        if (node.type === 'text') {
+            return collapseWhitespace(selection.text());
+        }
+        if (!('tagName' in node)) {
+            return '';
+        }
+
+        const tag = node.tagName.toLowerCase();
+        const heading = /^h([1-6])$/.exec(tag);
+        if (SKIPPED_TAGS.has(tag)) {
+            return '';
+        } else if (heading) {
+            const text = renderChildren(selection).replace(/\s+/g, ' ').trim();
+            return text ? `${BLOCK_BREAK}${'#'.repeat(parseInt(heading[1]))} ${text}${BLOCK_BREAK}` : '';
+        } else if (tag === 'table') {
+            return renderTable(selection);
+        } else if (tag === 'ul' || tag === 'ol') {
+            return renderList(selection, tag === 'ol');
+        } else if (tag === 'br') {
+            return '\n';
+        } else if (tag === 'b' || tag === 'strong') {
+            const text = renderChildren(selection).trim();
+            return text ? `**${text}**` : '';
+        } else if (BLOCK_TAGS.has(tag) || tag === 'tr') {
+            return BLOCK_BREAK + renderChildren(selection) + BLOCK_BREAK;
+        }
+        return renderChildren(selection);
+    };
+
+    const body = $('body');
+    return renderChildren(body.length > 0 ? body : $.root())
+        .split('\n')
+        .map(line => line.trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
@@ -0,0 +1,427 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { CompanyEntry, readCompanyList } from './CompanyList';
+import { WINDOW_SIZES, WindowSize } from './DateWindows';
+import { CORPUS_ROOT, sanitizePathSegment } from './DocumentPath';
+import { buildFilingFilter } from './FilingFilter';
+import { DUPLICATE_POLICIES, DuplicatePolicy } from './HashIndex';
+import { RateLimitConfig } from './HostRateLimiter';
+import { PAGE_LOAD_MODES, PageLoadMode } from './PageLoader';
+import { CrawlRunReport, OutcomeCounts } from './RunReport';
+import { CrawlJob, formatCompactDate, isSearchDate, parseSearchDate, today } from './SourceAdapter';
+import { SourceRegistry } from './SourceRegistry';
+
+/**
+ * 작업 파일 스키마의 값 하나 (JSON Schema의 일부 기능만 지원)
+ */
+type SchemaNode =
+    | { type: 'string', enum?: readonly string[], format?: 'date' }
+    | { type: 'number', integer?: boolean, minimum?: number, exclusiveMinimum?: number }
+    | { type: 'boolean' }
+    | { type: 'array', items: SchemaNode, minItems?: number }
+    | { type: 'object', properties: Record<string, SchemaNode>, required?: string[] };
+
+const STRING: SchemaNode = { type: 'string' };
+const BOOLEAN: SchemaNode = { type: 'boolean' };
+const DATE: SchemaNode = { type: 'string', format: 'date' };
+const POSITIVE_NUMBER: SchemaNode = { type: 'number', exclusiveMinimum: 0 };
+const POSITIVE_INTEGER: SchemaNode = { type: 'number', integer: true, minimum: 1 };
+const NON_NEGATIVE_INTEGER: SchemaNode = { type: 'number', integer: true, minimum: 0 };
+const STRING_LIST: SchemaNode = { type: 'array', items: STRING };
+
+export const JOB_MODES = ['fetch', 'sync'] as const;
+export type JobMode = typeof JOB_MODES[number];
+
+/** defaults와 sources 항목에 공통으로 쓰는 수집 설정 (CLI 옵션과 같은 의미) */
+const TASK_PROPERTIES: Record<string, SchemaNode> = {
+    from: DATE,
+    to: DATE,
+    window: { type: 'string', enum: WINDOW_SIZES },
+    windowCap: POSITIVE_INTEGER,
+    maxPages: POSITIVE_INTEGER,
+    pageMode: { type: 'string', enum: PAGE_LOAD_MODES },
+    overlap: NON_NEGATIVE_INTEGER,
+    rateLimit: {
+        type: 'object',
+        properties: {
+            requestsPerSecond: POSITIVE_NUMBER,
+            maxConcurrency: POSITIVE_INTEGER,
+            jitterMs: NON_NEGATIVE_INTEGER,
+        },
+    },
+    companies: STRING_LIST,
+    companiesFile: STRING,
+    startIndex: NON_NEGATIVE_INTEGER,
+    markdown: BOOLEAN,
+    financials: BOOLEAN,
+    allVersions: BOOLEAN,
+    filters: {
+        type: 'object',
+        properties: {
+            disclosureTypes: STRING_LIST,
+            includeReport: STRING,
+            excludeReport: STRING,
+            includeSubmitter: STRING,
+            excludeSubmitter: STRING,
+        },
+    },
+};
+
+interface TaskSettings {
+    from?: string;
+    to?: string;
+    window?: WindowSize;
+    windowCap?: number;
+    maxPages?: number;
+    pageMode?: PageLoadMode;
+    overlap?: number;
+    rateLimit?: Partial<RateLimitConfig>;
+    companies?: string[];
+    companiesFile?: string;
+    startIndex?: number;
+    markdown?: boolean;
+    financials?: boolean;
+    allVersions?: boolean;
+    filters?: {
+        disclosureTypes?: string[];
+        includeReport?: string;
+        excludeReport?: string;
+        includeSubmitter?: string;
+        excludeSubmitter?: string;
+    };
+}
+
+/**
+ * 작업 파일 내용 (JSON 또는 YAML)
+ */
+export interface JobFile {
+    /** 작업 이름 (실행 요약 파일 이름에 사용, 없으면 작업 파일 이름) */
+    name?: string;
+    /** fetch: 지정한 기간 전체 수집, sync: 목록별 기준점 이후만 증분 수집 (기본값: fetch) */
+    mode?: JobMode;
+    dedup?: DuplicatePolicy;
+    /** 모든 확인 질문에 자동으로 'y' 응답 */
+    assumeYes?: boolean;
+    /** 모든 소스에 적용할 기본 설정 (소스 항목의 같은 설정이 우선) */
+    defaults?: TaskSettings;
+    sources: (TaskSettings & {
+        /** 소스 ID (dart, opendart, hankyung, mirae 등) */
+        source: string;
+        /** 수집할 카테고리 ID 또는 이름 (카테고리마다 따로 수집, 없으면 소스의 첫 번째 카테고리) */
+        categories?: string[];
+    })[];
+}
+
+/**
+ * 작업 파일의 수집 단위 하나 (소스 하나의 카테고리 하나)
+ */
+export interface JobTask {
+    /** 로그와 실행 요약에 쓰는 이름 (예: "hankyung:기업분석") */
+    label: string;
+    source: string;
+    job: CrawlJob;
+    rateLimit: Partial<RateLimitConfig>;
+}
+
+export interface JobPlan {
+    name: string;
+    filePath: string;
+    mode: JobMode;
+    dedup: DuplicatePolicy;
+    assumeYes: boolean;
+    tasks: JobTask[];
+}
+
+export interface JobTaskResult {
+    label: string;
+    source: string;
+    category: string | null;
+    startDate: string;
+    endDate: string;
+    status: 'succeeded' | 'failed';
+    error?: string;
+    /** 작업의 실행 보고서 경로 (목록 조회 전에 실패하면 없음) */
+    report?: string;
+    /** 실행 보고서의 문서 결과 합계 */
+    totals?: OutcomeCounts;
+    startedAt: string;
+    finishedAt: string;
+}
+
+/**
+ * 작업 파일 형식이 잘못된 경우 (모든 오류를 경로와 함께 모아서 알림)
+ */
+export class JobFileError extends Error {
+    constructor(filePath: string, public readonly errors: string[]) {
+        super(`Invalid job file ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+        this.name = 'JobFileError';
+    }
+}
+
+function createJobFileSchema(sourceIds: string[]): SchemaNode {
+    return {
+        type: 'object',
+        required: ['sources'],
+        properties: {
+            name: STRING,
+            mode: { type: 'string', enum: JOB_MODES },
+            dedup: { type: 'string', enum: DUPLICATE_POLICIES },
+            assumeYes: BOOLEAN,
+            defaults: { type: 'object', properties: TASK_PROPERTIES },
+            sources: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                    type: 'object',
+                    required: ['source'],
+                    properties: {
+                        source: { type: 'string', enum: sourceIds },
+                        categories: { type: 'array', items: STRING, minItems: 1 },
+                        ...TASK_PROPERTIES,
+                    },
+                },
+            },
+        },
+    };
+}
+
+/**
+ * 값을 스키마로 검사하여 오류를 모음 (정의되지 않은 속성도 오타일 수 있으므로 오류)
+ */
+function validateNode(value: unknown, schema: SchemaNode, at: string, errors: string[]): void {
+    const label = at || '(root)';
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') {
+                errors.push(`${label}: expected a string`);
+            } else if (schema.enum && !schema.enum.includes(value)) {
+                errors.push(`${label}: expected one of ${schema.enum.join(', ')} but got "${value}"`);
+            } else if (schema.format === 'date' && !isSearchDate(value)) {
+                errors.push(`${label}: invalid value "${value}"`);
+            }
+            return;
+        case 'number':
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                errors.push(`${label}: expected a number`);
+            } else if (schema.integer && !Number.isInteger(value)) {
+                errors.push(`${label}: expected an integer`);
+            } else if (schema.minimum !== undefined && value < schema.minimum) {
+                errors.push(`${label}: must be at least ${schema.minimum}`);
+            } else if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+                errors.push(`${label}: must be greater than ${schema.exclusiveMinimum}`);
+            }
+            return;
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                errors.push(`${label}: expected true or false`);
+            }
+            return;
+        case 'array':
+            if (!Array.isArray(value)) {
+                errors.push(`${label}: expected a list`);
+                return;
+            }
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                errors.push(`${label}: expected at least ${schema.minItems} item(s)`);
+            }
+            value.forEach((item, index) => validateNode(item, schema.items, `${at}[${index}]`, errors));
+            return;
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                errors.push(`${label}: expected an object`);
+                return;
+            }
+            const record = value as Record<string, unknown>;
+            const keyPath = (key: string) => at ? `${at}.${key}` : key;
+            for (const key of schema.required ?? []) {
+                if (record[key] === undefined) {
+                    errors.push(`${keyPath(key)}: required`);
+                }
+            }
+            for (const [key, item] of Object.entries(record)) {
+                const property = schema.properties[key];
+                if (!property) {
+                    errors.push(`${keyPath(key)}: unknown property`);
+                } else if (item !== undefined && item !== null) {
+                    validateNode(item, property, keyPath(key), errors);
+                }
+            }
+            return;
+        }
+    }
+}
+
+/**
+ * 작업 파일 내용을 스키마로 검사
+ * @param sourceIds 사용할 수 있는 소스 ID
+ * @returns 오류 목록 (비어 있으면 올바른 작업 파일)
+ */
+export function validateJobFile(content: unknown, sourceIds: string[]): string[] {
+    const errors: string[] = [];
+    validateNode(content, createJobFileSchema(sourceIds), '', errors);
+    return errors;
+}
+
+function parseJobFileContent(filePath: string, text: string): unknown {
+    if (/\.ya?ml$/i.test(filePath)) {
+        // 날짜를 Date로 바꾸지 않도록 JSON 스키마로 읽음
+        return yaml.load(text, { schema: yaml.JSON_SCHEMA });
+    }
+    return JSON.parse(text);
+}
+
+/**
+ * 소스 항목 하나를 카테고리별 수집 작업으로 변환 (defaults와 합친 뒤 날짜, 필터, 기업 목록을 해석)
+ */
+function createTasks(file: JobFile, index: number, sources: SourceRegistry, errors: string[]): JobTask[] {
+    const entry = file.sources[index];
+    const at = `sources[${index}]`;
+
+    // 카테고리는 소스마다 다르므로 스키마 대신 소스에 등록된 카테고리로 검사 (카테고리 ID 또는 이름)
+    const sourceCategories = sources.getCategories(entry.source);
+    entry.categories?.forEach((category, categoryIndex) => {
+        if (sourceCategories.length === 0) {
+            errors.push(`${at}.categories[${categoryIndex}]: ${entry.source} has no categories`);
+        } else if (!sourceCategories.some(c => c.categoryId === category || c.categoryName === category)) {
+            const available = sourceCategories.map(c => `${c.categoryId}(${c.categoryName})`).join(', ');
+            errors.push(`${at}.categories[${categoryIndex}]: unknown category "${category}" (available: ${available})`);
+        }
+    });
+    const settings: TaskSettings = { ...file.defaults, ...entry, rateLimit: { ...file.defaults?.rateLimit, ...entry.rateLimit } };
+    const sync = file.mode === 'sync';
+
+    if (!settings.from) {
+        errors.push(`${at}.from: required (set it on the source or in defaults)`);
+    }
+    if (!settings.to && !sync) {
+        errors.push(`${at}.to: required unless mode is sync (set it on the source or in defaults)`);
+    }
+
+    let filingFilter: CrawlJob['filingFilter'];
+    try {
+        filingFilter = buildFilingFilter({
+            disclosureTypes: settings.filters?.disclosureTypes ?? [],
+            includeReportName: settings.filters?.includeReport,
+            excludeReportName: settings.filters?.excludeReport,
+            includeSubmitter: settings.filters?.includeSubmitter,
+            excludeSubmitter: settings.filters?.excludeSubmitter,
+        });
+    } catch (error) {
+        errors.push(`${at}.filters: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const companies: CompanyEntry[] = [];
+    if (settings.companiesFile) {
+        if (fs.existsSync(settings.companiesFile)) {
+            companies.push(...readCompanyList(settings.companiesFile));
+        } else {
+            errors.push(`${at}.companiesFile: file not found: ${settings.companiesFile}`);
+        }
+    }
+    companies.push(...(settings.companies ?? []).map(name => ({ name, listingDate: null, ticker: null })));
+
+    if (!settings.from || (!settings.to && !sync)) {
+        return [];
+    }
+    const startDate = parseSearchDate(settings.from, `${at}.from`);
+    const endDate = settings.to ? parseSearchDate(settings.to, `${at}.to`) : today();
+    const categories: (string | undefined)[] = entry.categories ?? [undefined];
+
+    return categories.map(category => ({
+        label: category ? `${entry.source}:${category}` : entry.source,
+        source: entry.source,
+        rateLimit: settings.rateLimit ?? {},
+        job: {
+            startDate,
+            endDate,
+            category,
+            companies,
+            pageLoadMode: settings.pageMode,
+            startIndex: settings.startIndex ?? 0,
+            viewerMarkdown: settings.markdown ?? false,
+            financialStatements: settings.financials ?? false,
+            filingFilter,
+            amendmentHistory: settings.allVersions ?? false,
+            window: settings.window,
+            windowCap: settings.windowCap,
+            maxPages: settings.maxPages,
+            sync,
+            overlapDays: settings.overlap,
+        },
+    }));
+}
+
+/**
+ * 작업 파일(.json, .yaml, .yml)을 읽어 스키마로 검사하고 수집 작업 목록으로 변환
+ * 기업 목록 파일 경로는 다른 CLI 옵션과 같이 현재 폴더 기준입니다.
+ * @param sources 사용할 수 있는 소스 (소스 ID와 카테고리 검사에 사용)
+ */
+export function loadJobFile(filePath: string, sources: SourceRegistry): JobPlan {
+    let content: unknown;
+    try {
+        content = parseJobFileContent(filePath, fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new JobFileError(filePath, [error instanceof Error ? error.message : String(error)]);
+    }
+
+    const errors = validateJobFile(content, sources.getIds());
+    if (errors.length > 0) {
+        throw new JobFileError(filePath, errors);
+    }
+    const file = content as JobFile;
+    const tasks = file.sources.flatMap((_, index) => createTasks(file, index, sources, errors));
+    if (errors.length > 0) {
+        throw new JobFileError(filePath, errors);
+    }
+
+    return {
+        name: file.name ?? path.parse(filePath).name,
+        filePath,
+        mode: file.mode ?? 'fetch',
+        dedup: file.dedup ?? 'link',
+        assumeYes: file.assumeYes ?? false,
+        tasks,
+    };
+}
+
+/**
+ * 작업의 모든 수집 결과를 실행 요약 파일 하나로 저장
+ * @returns 저장한 파일 경로
+ */
+export function writeJobSummary(plan: JobPlan, results: JobTaskResult[], startedAt: Date): string {
+    const finishedAt = new Date();
+    const summaryPath = `${CORPUS_ROOT}/job-${sanitizePathSegment(plan.name)}-summary-${startedAt.toISOString().replace(/[:.]/g, '-')}.json`;
+    const summary = {
+        job: plan.name,
+        file: plan.filePath,
+        mode: plan.mode,
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        succeeded: results.filter(result => result.status === 'succeeded').length,
+        failed: results.filter(result => result.status === 'failed').length,
+        tasks: results,
+    };
+    fs.mkdirSync(CORPUS_ROOT, { recursive: true });
+    fs.writeFileSync(summaryPath, JSON.stringify(summary, null, 2), 'utf8');
+    return summaryPath;
+}
+
+/**
+ * 실행 요약에 기록할 작업 결과 생성
+ */
+export function createTaskResult(task: JobTask, startedAt: Date, error?: unknown, run?: { report: CrawlRunReport, reportPath: string }): JobTaskResult {
+    return {
+        label: task.label,
+        source: task.source,
+        category: task.job.category ?? null,
+        startDate: formatCompactDate(task.job.startDate),
+        endDate: formatCompactDate(task.job.endDate),
+        status: error === undefined ? 'succeeded' : 'failed',
+        error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+        report: run?.reportPath,
+        totals: run?.report.totals,
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+    };
+}
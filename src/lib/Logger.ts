@@ -0,0 +1,111 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * 로그 출력 형식
+ * - text: 사람이 읽는 메시지 (터미널이면 진행 상황 줄을 함께 표시)
+ * - json: 한 줄에 이벤트 하나인 JSON (time, level, msg와 필드)
+ */
+export type LogFormat = 'text' | 'json';
+export const LOG_FORMATS: LogFormat[] = ['text', 'json'];
+
+/** 로그 이벤트에 붙이는 구조화된 필드 (Error 값은 메시지로 기록) */
+export type LogFields = Record<string, unknown>;
+
+const settings: { level: LogLevel, format: LogFormat } = { level: 'info', format: 'text' };
+let statusLine = '';
+
+export function configureLogging(options: { level?: LogLevel, format?: LogFormat }): void {
+    settings.level = options.level ?? settings.level;
+    settings.format = options.format ?? settings.format;
+}
+
+/** 진행 상황 줄을 표시할 수 있는지 여부 (text 형식이고 stderr가 터미널일 때) */
+export function isStatusLineEnabled(): boolean {
+    return settings.format === 'text' && process.stderr.isTTY === true;
+}
+
+function clearStatusLine(): void {
+    if (statusLine) {
+        process.stderr.write('\r\x1b[2K');
+    }
+}
+
+function drawStatusLine(): void {
+    if (statusLine) {
+        process.stderr.write(statusLine.slice(0, Math.max(0, (process.stderr.columns ?? 120) - 1)));
+    }
+}
+
+/**
+ * 터미널 마지막 줄에 진행 상황을 표시 (빈 문자열이면 지움)
+ * 로그를 출력할 때마다 줄을 지운 뒤 다시 그리므로 로그와 섞이지 않습니다.
+ */
+export function setStatusLine(text: string): void {
+    if (!isStatusLineEnabled()) {
+        return;
+    }
+    clearStatusLine();
+    statusLine = text;
+    drawStatusLine();
+}
+
+function serializeFields(fields: LogFields): LogFields {
+    return Object.fromEntries(Object.entries(fields)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [key, value instanceof Error ? value.message : value]));
+}
+
+/**
+ * 레벨과 형식을 전역 설정(configureLogging)으로 정하는 로거
+ * child로 목록 이름 등 공통 필드를 붙인 로거를 만들 수 있으며, 필드는 json 형식에서만 출력됩니다(text 형식은 error 필드만 메시지 뒤에 붙임).
+ */
+export class Logger {
+    constructor(private fields: LogFields = {}) {}
+
+    public child(fields: LogFields): Logger {
+        return new Logger({ ...this.fields, ...fields });
+    }
+
+    public debug(message: string, fields?: LogFields): void {
+        this.write('debug', message, fields);
+    }
+
+    public info(message: string, fields?: LogFields): void {
+        this.write('info', message, fields);
+    }
+
+    public warn(message: string, fields?: LogFields): void {
+        this.write('warn', message, fields);
+    }
+
+    public error(message: string, fields?: LogFields): void {
+        this.write('error', message, fields);
+    }
+
+    private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) {
+            return;
+        }
+        const event = serializeFields({ ...this.fields, ...fields });
+
+        if (settings.format === 'json') {
+            process.stdout.write(JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...event }) + '\n');
+            return;
+        }
+
+        const text = event.error !== undefined ? `${message}: ${event.error}` : message;
+        clearStatusLine();
+        if (level === 'error') {
+            console.error(text);
+        } else if (level === 'warn') {
+            console.warn(text);
+        } else {
+            console.log(text);
+        }
+        drawStatusLine();
+    }
+}
+
+/** 공통 로거 (모듈별 필드가 필요하면 logger.child 사용) */
+export const logger = new Logger();
@@ -0,0 +1,192 @@
+import axios from 'axios';
+import { load } from 'cheerio';
+import * as iconv from 'iconv-lite';
+import puppeteer, { Browser, HTTPResponse, Page, TimeoutError } from 'puppeteer';
+import { DEFAULT_RATE_LIMIT, HostRateLimiter, RateLimitConfig } from './HostRateLimiter';
+import { DEFAULT_RETRY, parseRetryAfter, RetryableError, RetryConfig, withRetry } from './Retry';
+
+/**
+ * 목록 페이지를 읽는 방식
+ * - browser: Puppeteer로 JavaScript를 실행한 뒤 DOM을 읽음
+ * - static: axios로 받은 HTML을 cheerio로 파싱 (JavaScript가 필요 없는 페이지)
+ */
+export type PageLoadMode = 'browser' | 'static';
+
+export const PAGE_LOAD_MODES: PageLoadMode[] = ['browser', 'static'];
+
+/**
+ * 목록 페이지에서 다운로드 링크가 속한 표의 행
+ */
+export interface ListRow {
+    /** 행이 속한 표의 헤더 텍스트 */
+    headers: string[];
+    /** 행의 셀별 전체 텍스트와 첫 번째 링크 텍스트 */
+    cells: { text: string, linkText: string }[];
+}
+
+export interface PageAnchor {
+    href: string;
+    title: string;
+    /** 링크 텍스트 */
+    text: string;
+    row: ListRow;
+}
+
+/**
+ * 읽어 들인 목록 페이지
+ */
+export interface ListPage {
+    anchors: PageAnchor[];
+}
+
+/**
+ * Content-Type 헤더 또는 meta 태그의 charset으로 HTML을 디코딩 (없으면 UTF-8)
+ */
+export function decodeHtml(data: Buffer, contentType: string | undefined): string {
+    const headerCharset = /charset=([\w-]+)/i.exec(contentType ?? '')?.[1];
+    const metaCharset = /<meta[^>]+charset=["']?([\w-]+)/i.exec(data.toString('latin1'))?.[1];
+    const charset = (headerCharset ?? metaCharset ?? 'utf-8').toLowerCase();
+    return iconv.encodingExists(charset) ? iconv.decode(data, charset) : data.toString('utf8');
+}
+
+export interface PageLoader {
+    loadPage(pageUrl: string): Promise<ListPage>;
+    close(): Promise<void>;
+}
+
+/**
+ * 하나의 브라우저를 띄워 두고 페이지(탭)를 재사용하는 로더
+ * 브라우저는 처음 요청할 때 실행되며 close()를 호출할 때까지 유지됩니다.
+ * 페이지 이동은 정적 로더와 같이 호스트별 속도 제한과 재시도를 적용합니다.
+ */
+export class BrowserPageLoader implements PageLoader {
+    private browser: Promise<Browser> | null = null;
+    private idlePages: Page[] = [];
+
+    constructor(
+        private rateLimiter: HostRateLimiter = new HostRateLimiter(),
+        private rateLimit: RateLimitConfig = DEFAULT_RATE_LIMIT,
+        private retryConfig: RetryConfig = DEFAULT_RETRY
+    ) {}
+
+    private async acquirePage(): Promise<Page> {
+        if (!this.browser) {
+            this.browser = puppeteer.launch();
+        }
+        const browser = await this.browser;
+        return this.idlePages.pop() ?? await browser.newPage();
+    }
+
+    /**
+     * 페이지 이동 (타임아웃, 연결 오류, 429, 5xx 응답은 재시도할 수 있는 오류로 던짐)
+     */
+    private async navigate(page: Page, pageUrl: string): Promise<void> {
+        let response: HTTPResponse | null;
+        try {
+            response = await page.goto(pageUrl, { waitUntil: 'networkidle2' });
+        } catch (error) {
+            if (error instanceof TimeoutError || /net::ERR_/.test(String(error))) {
+                throw new RetryableError(error instanceof Error ? error.message : String(error));
+            }
+            throw error;
+        }
+
+        const status = response?.status();
+        if (status === 429) {
+            throw new RetryableError('HTTP 429', parseRetryAfter(response?.headers()['retry-after']));
+        }
+        if (status !== undefined && status >= 500) {
+            throw new RetryableError(`HTTP ${status}`);
+        }
+    }
+
+    public async loadPage(pageUrl: string): Promise<ListPage> {
+        const page = await this.acquirePage();
+
+        try {
+            await withRetry(() => this.rateLimiter.schedule(pageUrl, () => this.navigate(page, pageUrl), this.rateLimit), this.retryConfig, pageUrl);
+            const listPage = await page.evaluate(() => {
+                const normalize = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+                const anchorElements = Array.from(document.querySelectorAll('a'));
+                const anchors = anchorElements.map(anchor => {
+                    const row = anchor.closest('tr');
+                    const table = row?.closest('table');
+                    const headerCells = table ? Array.from(table.querySelectorAll('thead th').length > 0
+                        ? table.querySelectorAll('thead th')
+                        : table.querySelectorAll('tr:first-child th')) : [];
+                    return {
+                        href: anchor.getAttribute('href') || '',
+                        title: anchor.getAttribute('title') || '',
+                        text: normalize(anchor.textContent),
+                        row: {
+                            headers: headerCells.map(th => normalize(th.textContent)),
+                            cells: row ? Array.from(row.querySelectorAll(':scope > td')).map(td => ({
+                                text: normalize(td.textContent),
+                                linkText: normalize(td.querySelector('a')?.textContent),
+                            })) : [],
+                        },
+                    };
+                });
+                return { anchors };
+            });
+            this.idlePages.push(page);
+            return listPage;
+        } catch (error) {
+            // 오류가 난 페이지는 상태를 알 수 없으므로 재사용하지 않음
+            await page.close().catch(() => undefined);
+            throw error;
+        }
+    }
+
+    public async close(): Promise<void> {
+        if (this.browser) {
+            const browser = await this.browser;
+            this.browser = null;
+            this.idlePages = [];
+            await browser.close();
+        }
+    }
+}
+
+/**
+ * axios + cheerio로 정적 HTML을 파싱하는 로더 (EUC-KR 페이지는 iconv-lite로 변환)
+ */
+export class StaticPageLoader implements PageLoader {
+    constructor(
+        private rateLimiter: HostRateLimiter = new HostRateLimiter(),
+        private rateLimit: RateLimitConfig = DEFAULT_RATE_LIMIT,
+        private retryConfig: RetryConfig = DEFAULT_RETRY
+    ) {}
+
+    public async loadPage(pageUrl: string): Promise<ListPage> {
+        const response = await withRetry(() => this.rateLimiter.schedule(pageUrl, () => axios.get(pageUrl, {
+            responseType: 'arraybuffer',
+            headers: { "User-Agent": "Mozilla/5.0" },
+        }), this.rateLimit), this.retryConfig, pageUrl);
+
+        const $ = load(decodeHtml(Buffer.from(response.data), String(response.headers['content-type'] ?? '')));
+        const normalize = (text: string | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+        const anchors = $('a').toArray().map(anchor => {
+            const row = $(anchor).closest('tr');
+            const table = row.closest('table');
+            const theadHeaders = table.find('thead th');
+            const headerCells = theadHeaders.length > 0 ? theadHeaders : table.find('tr').first().find('th');
+            return {
+                href: $(anchor).attr('href') || '',
+                title: $(anchor).attr('title') || '',
+                text: normalize($(anchor).text()),
+                row: {
+                    headers: headerCells.toArray().map(th => normalize($(th).text())),
+                    cells: row.children('td').toArray().map(td => ({
+                        text: normalize($(td).text()),
+                        linkText: normalize($(td).find('a').first().text()),
+                    })),
+                },
+            };
+        });
+        return { anchors };
+    }
+
+    public async close(): Promise<void> {}
+}
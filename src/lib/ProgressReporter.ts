@@ -0,0 +1,141 @@
+import { DownloadOutcome } from './FileDownloader';
+import { isStatusLineEnabled, logger, setStatusLine } from './Logger';
+
+export interface ProgressCounts {
+    /** 읽은 목록 페이지 수 */
+    pages: number;
+    /** 찾은 다운로드 링크 수 */
+    links: number;
+    /** 다운로드 대기열에 넣은 문서 수 */
+    queued: number;
+    downloaded: number;
+    skipped: number;
+    failed: number;
+    quarantined: number;
+    /** 받은 바이트 수 (이어받기와 재시도 포함) */
+    bytes: number;
+}
+
+/** 터미널 진행 상황 줄을 다시 그리는 최소 간격 */
+const STATUS_INTERVAL_MS = 250;
+/** 터미널이 아니거나 json 형식일 때 진행 상황 이벤트를 기록하는 간격 */
+const EVENT_INTERVAL_MS = 15000;
+
+function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit += 1;
+    }
+    return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function formatDuration(seconds: number): string {
+    const rounded = Math.round(seconds);
+    const hours = Math.floor(rounded / 3600);
+    const minutes = Math.floor((rounded % 3600) / 60);
+    return hours > 0 ? `${hours}h${minutes.toString().padStart(2, '0')}m` : `${minutes}m${(rounded % 60).toString().padStart(2, '0')}s`;
+}
+
+/**
+ * 수집 진행 상황 (목록 페이지, 찾은 링크, 다운로드 결과, 받은 바이트, 남은 시간)
+ * 여러 소스를 병렬로 수집할 때는 하나를 공유하여 전체 진행 상황을 표시합니다.
+ * 터미널에서는 마지막 줄에 계속 갱신하고, 그 외에는 일정 간격으로 progress 로그 이벤트를 기록합니다.
+ */
+export class ProgressReporter {
+    private counts: ProgressCounts = { pages: 0, links: 0, queued: 0, downloaded: 0, skipped: 0, failed: 0, quarantined: 0, bytes: 0 };
+    private downloadStartedAt: number | null = null;
+    private lastReportAt = 0;
+
+    constructor(private enabled: boolean = true) {}
+
+    public getCounts(): ProgressCounts {
+        return { ...this.counts };
+    }
+
+    public addPage(): void {
+        this.counts.pages += 1;
+        this.report();
+    }
+
+    public addLinks(count: number): void {
+        this.counts.links += count;
+        this.report();
+    }
+
+    public addQueued(count: number): void {
+        this.counts.queued += count;
+        this.downloadStartedAt = this.downloadStartedAt ?? Date.now();
+        this.report();
+    }
+
+    public addBytes(count: number): void {
+        this.counts.bytes += count;
+        this.report();
+    }
+
+    public addOutcome(outcome: DownloadOutcome): void {
+        this.counts[outcome] += 1;
+        this.report();
+    }
+
+    /**
+     * 남은 다운로드 시간 추정 (지금까지 처리한 문서의 평균 속도 기준, 처리한 문서가 없으면 null)
+     */
+    public estimateRemainingSeconds(): number | null {
+        const { queued, downloaded, skipped, failed, quarantined } = this.counts;
+        const completed = downloaded + skipped + failed + quarantined;
+        if (this.downloadStartedAt === null || completed === 0) {
+            return null;
+        }
+        const elapsedSeconds = (Date.now() - this.downloadStartedAt) / 1000;
+        return Math.max(0, queued - completed) * elapsedSeconds / completed;
+    }
+
+    public format(): string {
+        const { pages, links, queued, downloaded, skipped, failed, quarantined, bytes } = this.counts;
+        const completed = downloaded + skipped + failed + quarantined;
+        const eta = this.estimateRemainingSeconds();
+        return [
+            `pages ${pages}`,
+            `links ${links}`,
+            `files ${completed}/${queued} (${downloaded} downloaded, ${skipped} skipped, ${failed} failed${quarantined > 0 ? `, ${quarantined} quarantined` : ''})`,
+            formatBytes(bytes),
+            `ETA ${eta === null ? '-' : formatDuration(eta)}`,
+        ].join(' | ');
+    }
+
+    private report(force: boolean = false): void {
+        if (!this.enabled) {
+            return;
+        }
+        const now = Date.now();
+        const statusLine = isStatusLineEnabled();
+        if (!force && now - this.lastReportAt < (statusLine ? STATUS_INTERVAL_MS : EVENT_INTERVAL_MS)) {
+            return;
+        }
+        this.lastReportAt = now;
+
+        if (statusLine) {
+            setStatusLine(this.format());
+        } else {
+            const eta = this.estimateRemainingSeconds();
+            logger.info(`Progress: ${this.format()}`, { event: 'progress', ...this.counts, etaSeconds: eta === null ? null : Math.round(eta) });
+        }
+    }
+
+    /**
+     * 마지막 진행 상황을 기록하고 터미널 진행 상황 줄을 지움
+     */
+    public finish(): void {
+        if (!this.enabled) {
+            return;
+        }
+        if (isStatusLineEnabled()) {
+            setStatusLine('');
+        }
+        logger.info(`Progress: ${this.format()}`, { event: 'progress', ...this.counts, etaSeconds: 0 });
+    }
+}
@@ -0,0 +1,28 @@
+import readline from 'readline';
+import { logger, setStatusLine } from './Logger';
+
+/**
+ * 터미널에서 y/n 확인을 받음
+ * @param message 질문 문구
+ * @param assumeYes true이면 묻지 않고 'y'로 응답 (--yes)
+ */
+export async function askUserConfirmation(message: string, assumeYes = false): Promise<boolean> {
+    if (assumeYes) {
+        logger.info(`${message}y (--yes)`);
+        return true;
+    }
+
+    // 질문이 진행 상황 줄 뒤에 이어 붙지 않도록 먼저 지움 (다음 진행 상황 갱신 때 다시 표시)
+    setStatusLine('');
+    const rl = readline.createInterface({
+        input: process.stdin,
+        output: process.stdout,
+    });
+
+    return new Promise(resolve => {
+        rl.question(message, answer => {
+            rl.close();
+            resolve(answer.trim().toLowerCase() === 'y');
+        });
+    });
+}
@@ -0,0 +1,107 @@
+import axios from 'axios';
+import { logger } from './Logger';
+
+export interface RetryConfig {
+    /** 첫 시도를 포함한 최대 시도 횟수 */
+    maxAttempts: number;
+    /** 첫 재시도 전 대기 시간 (ms), 이후 시도마다 두 배로 증가 */
+    baseDelayMs: number;
+    /** 재시도 대기 시간 상한 (ms) */
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY: RetryConfig = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 60000 };
+
+/**
+ * 재시도하면 성공할 수 있는 오류 (잘린 응답, 재시작이 필요한 Range 요청 등)
+ */
+export class RetryableError extends Error {
+    constructor(message: string, public readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'RetryableError';
+    }
+}
+
+export interface ErrorClassification {
+    retryable: boolean;
+    retryAfterMs?: number;
+    reason: string;
+}
+
+const RETRYABLE_NETWORK_CODES = new Set([
+    'ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN', 'ENOTFOUND', 'ERR_SOCKET_CONNECTION_TIMEOUT',
+]);
+
+/**
+ * Retry-After 헤더 값(초 또는 HTTP 날짜)을 대기 시간(ms)으로 변환 (읽을 수 없으면 undefined)
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(String(value));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 오류를 재시도 가능 여부로 분류
+ * 타임아웃/연결 오류, 5xx, 429(Retry-After 반영)는 재시도하고 그 외 4xx 등은 영구 실패로 봅니다.
+ */
+export function classifyError(error: unknown): ErrorClassification {
+    if (error instanceof RetryableError) {
+        return { retryable: true, retryAfterMs: error.retryAfterMs, reason: error.message };
+    }
+
+    if (axios.isAxiosError(error)) {
+        const status = error.response?.status;
+        if (status === 429) {
+            return { retryable: true, retryAfterMs: parseRetryAfter(error.response?.headers['retry-after']), reason: 'HTTP 429' };
+        }
+        if (status !== undefined) {
+            return { retryable: status >= 500, reason: `HTTP ${status}` };
+        }
+        if (error.code && RETRYABLE_NETWORK_CODES.has(error.code)) {
+            return { retryable: true, reason: error.code };
+        }
+    }
+
+    const code = (error as NodeJS.ErrnoException | null)?.code;
+    if (code && RETRYABLE_NETWORK_CODES.has(code)) {
+        return { retryable: true, reason: code };
+    }
+
+    return { retryable: false, reason: error instanceof Error ? error.message : String(error) };
+}
+
+function getBackoffDelay(config: RetryConfig, attempt: number): number {
+    const exponential = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** (attempt - 1));
+    // equal jitter: 지연의 절반은 유지하고 나머지 절반을 랜덤으로 정하여 여러 작업자가 같은 시점에 재시도하지 않도록 분산
+    return Math.floor(exponential / 2 + Math.random() * exponential / 2);
+}
+
+/**
+ * 재시도 가능한 오류가 발생하면 지수 백오프로 작업을 다시 실행
+ * @param task 실행할 작업 (시도 번호는 1부터 시작)
+ * @param config 재시도 설정
+ * @param label 로그에 표시할 작업 이름
+ */
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, config: RetryConfig, label: string): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task(attempt);
+        } catch (error) {
+            const classification = classifyError(error);
+            if (!classification.retryable || attempt >= config.maxAttempts) {
+                throw error;
+            }
+
+            const delayMs = Math.min(config.maxDelayMs, classification.retryAfterMs ?? getBackoffDelay(config, attempt));
+            logger.warn(`Retrying ${label} in ${delayMs}ms (attempt ${attempt}/${config.maxAttempts} failed: ${classification.reason})`);
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+    }
+}
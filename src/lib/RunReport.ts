@@ -0,0 +1,146 @@
+import fs from 'fs';
+import path from 'path';
+import { CrawlStateStore } from './CrawlStateStore';
+import { CORPUS_ROOT, sanitizePathSegment } from './DocumentPath';
+import { DownloadOutcome, DownloadResult, FileLink } from './FileDownloader';
+import { CrawlJob, formatCompactDate, Listing } from './SourceAdapter';
+
+/** 이번 실행에서 문서 하나의 결과 (not-downloaded: 링크만 찾고 다운로드를 진행하지 않음) */
+export type DocumentOutcome = DownloadOutcome | 'not-downloaded';
+export const DOCUMENT_OUTCOMES: DocumentOutcome[] = ['downloaded', 'skipped', 'failed', 'quarantined', 'not-downloaded'];
+
+export type OutcomeCounts = Record<DocumentOutcome, number>;
+
+export interface DocumentReport {
+    url: string;
+    filename: string;
+    outcome: DocumentOutcome;
+    size: number | null;
+    sha256: string | null;
+    /** 바이트가 동일한 원본 파일 경로 (코퍼스 해시 중복일 때) */
+    duplicateOf: string | null;
+    /** 검증에 실패한 파일을 옮긴 격리 폴더 경로 */
+    quarantinedTo: string | null;
+    error: string | null;
+}
+
+export interface ListingReport {
+    listing: string;
+    /** failed: 목록 순회 등에서 오류가 나 목록 수집을 마치지 못함, cancelled: 다운로드 확인에 'n'으로 응답 */
+    status: 'completed' | 'failed' | 'cancelled';
+    error: string | null;
+    startDate: string;
+    endDate: string;
+    linksFile: string | null;
+    counts: OutcomeCounts;
+    documents: DocumentReport[];
+}
+
+/**
+ * 소스 하나의 수집 실행 결과 (목록별 모든 문서의 결과와 오류)
+ */
+export interface CrawlRunReport {
+    source: string;
+    mode: 'fetch' | 'sync';
+    startDate: string;
+    endDate: string;
+    startedAt: string;
+    finishedAt: string;
+    listingCount: number;
+    failedListings: string[];
+    totals: OutcomeCounts;
+    listings: ListingReport[];
+}
+
+export function emptyCounts(): OutcomeCounts {
+    return Object.fromEntries(DOCUMENT_OUTCOMES.map(outcome => [outcome, 0])) as OutcomeCounts;
+}
+
+export function addCounts(target: OutcomeCounts, counts: OutcomeCounts): OutcomeCounts {
+    DOCUMENT_OUTCOMES.forEach(outcome => target[outcome] += counts[outcome]);
+    return target;
+}
+
+/**
+ * 목록의 문서별 결과 (다운로드 결과가 없는 링크는 not-downloaded, 크기와 해시 등은 상태 파일 기록 사용)
+ * @param results 다운로드를 진행하지 않았으면 null
+ */
+export function buildListingReport(
+    listing: Listing,
+    fileLinks: FileLink[],
+    results: DownloadResult[] | null,
+    stateStore: CrawlStateStore,
+    linksFile: string
+): ListingReport {
+    const resultsByUrl = new Map((results ?? []).map(result => [result.fileLink.url, result]));
+    const counts = emptyCounts();
+    const documents = fileLinks.map((fileLink): DocumentReport => {
+        const result = resultsByUrl.get(fileLink.url);
+        const state = stateStore.get(fileLink);
+        const outcome: DocumentOutcome = result?.outcome ?? 'not-downloaded';
+        counts[outcome] += 1;
+        return {
+            url: fileLink.url,
+            filename: fileLink.filename,
+            outcome,
+            size: state?.size ?? null,
+            sha256: state?.sha256 ?? null,
+            duplicateOf: state?.duplicateOf ?? null,
+            quarantinedTo: outcome === 'quarantined' ? state?.quarantinedTo ?? null : null,
+            error: result?.error ?? null,
+        };
+    });
+
+    return {
+        listing: listing.name,
+        status: results === null ? 'cancelled' : 'completed',
+        error: null,
+        startDate: formatCompactDate(listing.startDate),
+        endDate: formatCompactDate(listing.endDate),
+        linksFile,
+        counts,
+        documents,
+    };
+}
+
+/**
+ * 수집을 마치지 못한 목록의 결과
+ */
+export function buildFailedListingReport(listing: Listing, error: unknown): ListingReport {
+    return {
+        listing: listing.name,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        startDate: formatCompactDate(listing.startDate),
+        endDate: formatCompactDate(listing.endDate),
+        linksFile: null,
+        counts: emptyCounts(),
+        documents: [],
+    };
+}
+
+export function createRunReport(source: string, job: CrawlJob, listings: ListingReport[], listingCount: number, startedAt: Date): CrawlRunReport {
+    return {
+        source,
+        mode: job.sync ? 'sync' : 'fetch',
+        startDate: formatCompactDate(job.startDate),
+        endDate: formatCompactDate(job.endDate),
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        listingCount,
+        failedListings: listings.filter(listing => listing.status === 'failed').map(listing => listing.listing),
+        totals: listings.reduce((totals, listing) => addCounts(totals, listing.counts), emptyCounts()),
+        listings,
+    };
+}
+
+/**
+ * 실행 결과를 코퍼스 루트의 run-report-{소스}-{시각}.json에 저장
+ * @returns 저장한 파일 경로
+ */
+export function writeRunReport(report: CrawlRunReport): string {
+    const filePath = `${CORPUS_ROOT}/run-report-${sanitizePathSegment(report.source)}-${report.startedAt.replace(/[:.]/g, '-')}.json`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(report, null, 2), 'utf8');
+    return filePath;
+}
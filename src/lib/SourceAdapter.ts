@@ -0,0 +1,206 @@
+import { CompanyEntry } from './CompanyList';
+import { WindowSize } from './DateWindows';
+import { DownloadOptions, FileLink } from './FileDownloader';
+import { FilingFilter } from './FilingFilter';
+import { PageLoadMode } from './PageLoader';
+import { RateLimitConfig } from './HostRateLimiter';
+
+export interface SourceConfig {
+    sourceName: string;
+    categoryId: string;
+    categoryName: string;
+}
+
+export interface SearchDate {
+    year: number;
+    month: number;
+    day: number;
+}
+
+/**
+ * 한 번의 수집 요청 (CLI 옵션에서 만들어지며 모든 소스에 동일하게 전달)
+ */
+export interface CrawlJob {
+    startDate: SearchDate;
+    endDate: SearchDate;
+    /** 카테고리 ID 또는 이름 (없으면 소스의 첫 번째 카테고리) */
+    category?: string;
+    /** 기업 단위로 검색하는 소스(DART)의 대상 기업 목록 */
+    companies: CompanyEntry[];
+    /** 목록 페이지 로드 방식 (없으면 소스 기본값) */
+    pageLoadMode?: PageLoadMode;
+    /** 목록 중 수집을 시작할 인덱스 (기업 목록 중간부터 다시 시작할 때) */
+    startIndex?: number;
+    /** DART 공시 뷰어 HTML을 Markdown으로도 저장 (dart 소스) */
+    viewerMarkdown?: boolean;
+    /** 정기보고서의 재무제표 값을 JSON/CSV로 추출 (dart 소스) */
+    financialStatements?: boolean;
+    /** 공시유형, 보고서명, 제출인 필터 (DART 소스) */
+    filingFilter?: FilingFilter;
+    /** 정정으로 대체된 이전 버전 공시도 수집 (DART 소스, 없으면 최종 보고서만) */
+    amendmentHistory?: boolean;
+    /** 검색 기간을 이 단위의 구간으로 나눠 구간별로 수집 (없으면 전체 기간을 한 번에 검색) */
+    window?: WindowSize;
+    /** 한 구간의 결과가 이 건수에 이르면 구간을 반으로 나눠 다시 검색 (소스의 검색 결과 상한) */
+    windowCap?: number;
+    /** 한 검색 구간에서 넘길 최대 페이지 수 (페이지 끝 판단이 잘못되어 끝없이 순회하지 않도록) */
+    maxPages?: number;
+    /** 증분 수집: 목록별 기준점 이후만 검색하고 결과를 기존 링크/메타데이터 파일에 추가 (기준점이 없으면 startDate부터) */
+    sync?: boolean;
+    /** 증분 수집에서 기준점 이전으로 겹쳐서 다시 검색하는 일 수 */
+    overlapDays?: number;
+}
+
+/**
+ * 소스 안에서 페이지를 넘기며 순회하는 목록 하나 (카테고리 또는 기업별 검색 결과)
+ * 상태 파일, 링크/메타데이터 JSON, 다운로드 폴더는 목록 단위로 만들어집니다.
+ */
+export interface Listing {
+    /** 출력 파일 이름 접두어 (예: "한경컨센서스-기업분석", "DART-파두-공시자료") */
+    name: string;
+    sourceConfig: SourceConfig;
+    startDate: SearchDate;
+    endDate: SearchDate;
+    /** 소스별 검색어 (DART 기업명 등) */
+    query?: string;
+    /** 수집 범위를 정하는 필터 (실행 기록 파일에 저장) */
+    filters?: object;
+}
+
+/**
+ * 목록 페이지에서 추출한 문서 하나
+ */
+export interface DocumentRecord<M extends object = object> {
+    /** 목록 안에서 문서를 구분하는 키 (보고서 URL 등) */
+    key: string;
+    /** 소스별 메타데이터 (meta.json과 상태 파일에 기록) */
+    metadata: M;
+    /** 문서 날짜 (YYYY-MM-DD, 증분 수집 기준점 계산에 사용, 모르면 생략) */
+    date?: string | null;
+    /** 목록에서 바로 알 수 있는 다운로드 링크 (없으면 resolveDownloads로 조회) */
+    fileLinks?: FileLink[];
+}
+
+export interface PageResult<M extends object = object> {
+    records: DocumentRecord<M>[];
+    /** 다음 페이지를 요청해야 하는지 여부 */
+    hasNextPage: boolean;
+    /** 다음 페이지 요청에 쓸 커서 (페이지 번호 대신 커서로 페이지를 넘기는 소스) */
+    nextCursor?: string;
+    /** 소스가 알려준 전체 결과 건수 (수집 건수와 다르면 경고) */
+    totalCount?: number;
+    /** 페이지 결과 중 어댑터가 제외한 문서 수 (다른 기업의 공시 등) */
+    excludedCount?: number;
+    /** 어댑터가 제외한 문서 (상태 파일에 기록하여 이어서 실행할 때 restorePage로 다시 전달) */
+    excluded?: DocumentRecord<M>[];
+}
+
+/**
+ * 다운로드를 마친 문서 (후처리용)
+ */
+export interface DownloadedDocument {
+    fileLink: FileLink;
+    /** 받은 파일 경로 (중복 문서를 저장하지 않는 정책이면 원본 파일 경로) */
+    filePath: string;
+    /** 문서를 저장하는 코퍼스 루트 폴더 (fileLink.filename의 기준 폴더) */
+    folder: string;
+    /** 상태 파일에 기록된 문서 메타데이터 */
+    metadata: unknown;
+}
+
+/**
+ * 어댑터가 요청을 보낼 때 사용하는 공유 자원
+ */
+export interface SourceContext {
+    /** 호스트별 속도 제한과 재시도를 적용하여 요청 실행 */
+    request<T>(url: string, task: () => Promise<T>): Promise<T>;
+    /** 속도 제한기, 재시도 설정 등 (정적 페이지 로더처럼 직접 요청하는 구성요소에 전달) */
+    downloadOptions: DownloadOptions;
+}
+
+/**
+ * 수집 소스 어댑터
+ * 소스마다 다른 부분(목록 탐색, 페이지 순회, 문서 레코드 추출, 다운로드 URL 조회)만 구현하며,
+ * 상태 저장, 다운로드, 출력 경로는 CrawlPipeline이 공통으로 처리합니다.
+ */
+export interface SourceAdapter<M extends object = object> {
+    /** 소스 요청 속도 제한 기본값 */
+    readonly rateLimit: RateLimitConfig;
+    /** 첫 페이지 번호 */
+    readonly firstPage: number;
+
+    /** 수집 요청에 해당하는 목록 (카테고리, 기업별 검색 등) */
+    discoverListings(job: CrawlJob, context: SourceContext): Promise<Listing[]>;
+
+    /**
+     * 목록의 한 페이지를 읽어 문서 레코드 추출
+     * @param page 페이지 번호 (firstPage부터 시작)
+     * @param cursor 직전 페이지 결과의 nextCursor (첫 페이지는 undefined)
+     */
+    fetchPage(listing: Listing, page: number, context: SourceContext, cursor?: string): Promise<PageResult<M>>;
+
+    /**
+     * 이전 실행에서 기록한 페이지를 다시 요청하지 않고 이어서 진행할 때, 그 페이지의 결과를 어댑터에 전달
+     * (fetchPage에서 모으던 집계나 상태를 이어서 실행한 페이지에도 반영하기 위함)
+     */
+    restorePage?(listing: Listing, records: DocumentRecord<M>[], excluded: DocumentRecord<M>[]): void;
+
+    /**
+     * 목록의 모든 레코드를 모은 뒤 레코드 사이의 관계(정정 공시 체인 등)를 메타데이터에 기록
+     */
+    linkRecords?(records: DocumentRecord<M>[]): DocumentRecord<M>[];
+
+    /**
+     * 문서 레코드의 다운로드 링크 조회 (조회 실패 시 빈 배열)
+     */
+    resolveDownloads(record: DocumentRecord<M>, context: SourceContext): Promise<FileLink[]>;
+
+    /**
+     * 다운로드한 문서의 후처리 (압축 해제 등)
+     * @returns 문서 메타데이터에 더할 항목 (없으면 undefined)
+     */
+    processDownload?(document: DownloadedDocument, context: SourceContext): Promise<object | undefined>;
+
+    /** 수집 요청의 모든 목록을 처리한 뒤 호출 (실행 보고서 작성 등) */
+    finish?(job: CrawlJob): Promise<void>;
+
+    /** 파일 다운로드 요청 직전에 인증 파라미터를 붙임 (API 키가 저장되는 URL에 남지 않도록) */
+    authorizeUrl?(url: string): string;
+
+    /** 브라우저 등 어댑터가 연 자원 정리 */
+    close(): Promise<void>;
+}
+
+/**
+ * YYYY-MM-DD 또는 YYYYMMDD 형식의 실제 날짜인지 확인 (2024-0101처럼 두 형식이 섞이거나 2024-13-45처럼 없는 날짜는 false)
+ */
+export function isSearchDate(value: string): boolean {
+    const match = /^(\d{4})(-?)(\d{2})\2(\d{2})$/.exec(value);
+    if (!match) {
+        return false;
+    }
+    const date = new Date(Date.UTC(parseInt(match[1]), parseInt(match[3]) - 1, parseInt(match[4])));
+    return date.getUTCMonth() + 1 === parseInt(match[3]) && date.getUTCDate() === parseInt(match[4]);
+}
+
+/**
+ * YYYY-MM-DD 또는 YYYYMMDD 형식의 날짜를 읽음 (형식이 다르거나 없는 날짜면 오류)
+ * @param label 오류 메시지에 표시할 옵션 이름
+ */
+export function parseSearchDate(value: string, label: string): SearchDate {
+    if (!isSearchDate(value)) {
+        throw new Error(`Invalid ${label} date: ${value} (expected YYYY-MM-DD or YYYYMMDD)`);
+    }
+    const digits = value.replace(/-/g, '');
+    return { year: parseInt(digits.slice(0, 4)), month: parseInt(digits.slice(4, 6)), day: parseInt(digits.slice(6, 8)) };
+}
+
+/** 오늘 날짜 (현지 시간 기준) */
+export function today(): SearchDate {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() + 1, day: now.getDate() };
+}
+
+export function formatCompactDate(date: SearchDate): string {
+    return `${date.year}${date.month.toString().padStart(2, '0')}${date.day.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,44 @@
+import { SourceAdapter, SourceConfig } from './SourceAdapter';
+
+export type SourceAdapterFactory = () => SourceAdapter;
+
+/**
+ * 소스 ID별 어댑터 생성 함수 등록부
+ * 어댑터는 브라우저 등 실행별 자원을 가지므로 수집할 때마다 새로 생성합니다.
+ */
+export class SourceRegistry {
+    private factories = new Map<string, SourceAdapterFactory>();
+    private categories = new Map<string, SourceConfig[]>();
+
+    /**
+     * @param categories 소스의 카테고리 (작업 파일의 categories 검사에 사용, 카테고리가 없는 소스는 빈 배열)
+     */
+    public register(id: string, factory: SourceAdapterFactory, categories: SourceConfig[] = []): this {
+        if (this.factories.has(id)) {
+            throw new Error(`Source already registered: ${id}`);
+        }
+        this.factories.set(id, factory);
+        this.categories.set(id, categories);
+        return this;
+    }
+
+    public has(id: string): boolean {
+        return this.factories.has(id);
+    }
+
+    public getIds(): string[] {
+        return Array.from(this.factories.keys());
+    }
+
+    public getCategories(id: string): SourceConfig[] {
+        return this.categories.get(id) ?? [];
+    }
+
+    public create(id: string): SourceAdapter {
+        const factory = this.factories.get(id);
+        if (!factory) {
+            throw new Error(`Unknown source: ${id} (available: ${this.getIds().join(', ')})`);
+        }
+        return factory();
+    }
+}
@@ -0,0 +1,130 @@
+import fs from 'fs';
+import path from 'path';
+import { addDays, earlierDate } from './DateWindows';
+import { logger } from './Logger';
+import { DocumentRecord, formatCompactDate, Listing, SearchDate } from './SourceAdapter';
+
+/**
+ * 목록 하나(소스, 카테고리, 기업)의 증분 수집 기준점
+ */
+export interface Watermark {
+    listing: string;
+    sourceName: string;
+    categoryId: string;
+    categoryName: string;
+    query: string | null;
+    /** 지금까지 본 가장 최근 문서 날짜 (YYYY-MM-DD, 날짜가 있는 문서를 본 적이 없으면 null) */
+    latestDate: string | null;
+    /** 가장 최근 문서의 키 */
+    latestKey: string | null;
+    /** 겹쳐서 다시 검색하는 기간의 문서 (다음 동기화에서 이 문서만 나오는 페이지에 이르면 순회 중단) */
+    recentDocuments: { key: string, date: string }[];
+    /** 마지막으로 동기화한 검색 종료일 (YYYYMMDD) */
+    syncedTo: string;
+    updatedAt: string;
+}
+
+export const DEFAULT_WATERMARK_PATH = './downloads/sync-watermarks.json';
+/** 기준점 이전으로 겹쳐서 다시 검색하는 일 수 기본값 (늦게 등록되는 문서 대비) */
+export const DEFAULT_OVERLAP_DAYS = 3;
+
+function parseRecordDate(text: string): SearchDate | null {
+    const match = /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(text);
+    return match ? { year: parseInt(match[1]), month: parseInt(match[2]), day: parseInt(match[3]) } : null;
+}
+
+function toIsoDate(date: SearchDate): string {
+    return formatCompactDate(date).replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3');
+}
+
+/**
+ * 목록 이름을 키로 하는 증분 수집 기준점 파일 (JSON)
+ * 여러 소스를 병렬로 동기화해도 다른 목록의 기록을 덮어쓰지 않도록 저장할 때마다 파일을 다시 읽어 합칩니다.
+ */
+export class WatermarkStore {
+    constructor(private filePath: string = DEFAULT_WATERMARK_PATH) {}
+
+    private load(): Record<string, Watermark> {
+        if (!fs.existsSync(this.filePath)) {
+            return {};
+        }
+        return JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    }
+
+    public get(listing: Listing): Watermark | undefined {
+        return this.load()[listing.name];
+    }
+
+    /**
+     * 기준점에서 겹치는 기간을 뺀 날부터 검색하도록 목록의 검색 기간을 바꿈 (기준점이 없으면 그대로)
+     */
+    public applyTo(listing: Listing, overlapDays: number): Listing {
+        const watermark = this.get(listing);
+        const mark = watermark ? watermark.latestDate ?? watermark.syncedTo : undefined;
+        const since = mark ? parseRecordDate(mark) : null;
+        if (!since) {
+            logger.info(`No sync watermark for ${listing.name}; collecting from ${formatCompactDate(listing.startDate)}`);
+            return listing;
+        }
+        const startDate = earlierDate(addDays(since, -overlapDays), listing.endDate);
+        logger.info(`Syncing ${listing.name} from ${formatCompactDate(startDate)} (watermark ${mark}, overlap ${overlapDays} days)`);
+        return { ...listing, startDate };
+    }
+
+    /**
+     * 이미 수집한 문서 키 (겹치는 기간의 문서)
+     */
+    public getKnownKeys(listing: Listing): Set<string> {
+        return new Set(this.get(listing)?.recentDocuments.map(document => document.key) ?? []);
+    }
+
+    /**
+     * 이번 동기화에서 찾은 문서로 기준점을 앞으로 옮겨 저장 (더 최근 문서가 없으면 이전 기준점 유지)
+     */
+    public update(listing: Listing, records: DocumentRecord[], overlapDays: number): Watermark {
+        const watermarks = this.load();
+        const previous = watermarks[listing.name];
+        const dated = records.flatMap(record => {
+            const date = record.date ? parseRecordDate(record.date) : null;
+            return date ? [{ key: record.key, date: toIsoDate(date) }] : [];
+        });
+
+        let latestDate = previous?.latestDate ?? null;
+        let latestKey = previous?.latestKey ?? null;
+        for (const document of dated) {
+            if (latestDate === null || document.date > latestDate) {
+                latestDate = document.date;
+                latestKey = document.key;
+            }
+        }
+
+        const recentFrom = latestDate ? toIsoDate(addDays(parseRecordDate(latestDate)!, -overlapDays)) : null;
+        const recent = new Map<string, string>();
+        for (const document of [...(previous?.recentDocuments ?? []), ...dated]) {
+            if (recentFrom !== null && document.date >= recentFrom) {
+                recent.set(document.key, document.date);
+            }
+        }
+
+        const watermark: Watermark = {
+            listing: listing.name,
+            sourceName: listing.sourceConfig.sourceName,
+            categoryId: listing.sourceConfig.categoryId,
+            categoryName: listing.sourceConfig.categoryName,
+            query: listing.query ?? null,
+            latestDate,
+            latestKey,
+            recentDocuments: Array.from(recent, ([key, date]) => ({ key, date })),
+            syncedTo: formatCompactDate(listing.endDate),
+            updatedAt: new Date().toISOString(),
+        };
+        watermarks[listing.name] = watermark;
+
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(watermarks, null, 2), 'utf8');
+        fs.renameSync(tempPath, this.filePath);
+        logger.info(`Sync watermark for ${listing.name}: ${latestDate ?? 'no dated documents'} (synced to ${watermark.syncedTo})`);
+        return watermark;
+    }
+}
@@ -0,0 +1,35 @@
+/**
+ * 최대 concurrency개의 작업자로 항목들을 순서대로 처리
+ * 작업 중 오류가 발생하면 새 항목은 시작하지 않고, 진행 중인 작업이 끝난 뒤 첫 오류를 다시 던집니다.
+ * @param items 처리할 항목 목록
+ * @param concurrency 동시에 실행할 작업자 수
+ * @param worker 항목별 처리 함수
+ */
+export async function runWithConcurrency<T>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+    let nextIndex = 0;
+    let firstError: unknown = null;
+
+    const runWorker = async (): Promise<void> => {
+        while (firstError === null && nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                await worker(items[index], index);
+            } catch (error) {
+                if (firstError === null) {
+                    firstError = error;
+                }
+            }
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, items.length));
+    await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+
+    if (firstError !== null) {
+        throw firstError;
+    }
+}
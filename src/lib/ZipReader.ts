@@ -0,0 +1,121 @@
+import zlib from 'zlib';
+import * as iconv from 'iconv-lite';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const UTF8_NAME_FLAG = 0x0800;
+/** 항목 하나를 풀 때 허용하는 최대 크기 기본값 (압축 폭탄으로 메모리가 고갈되지 않도록 제한) */
+export const DEFAULT_MAX_ENTRY_SIZE = 512 * 1024 * 1024;
+
+export interface ZipEntry {
+    /** 압축 파일 안의 경로 (UTF-8 플래그가 없으면 CP949로 해석) */
+    name: string;
+    isDirectory: boolean;
+    /** 압축 방식 (0: 저장, 8: deflate) */
+    method: number;
+    compressedSize: number;
+    size: number;
+    localHeaderOffset: number;
+}
+
+/**
+ * 메모리에 올린 ZIP 파일을 읽는 최소 구현 (저장/deflate 방식, ZIP64 미지원)
+ * DART가 제공하는 ZIP(corpCode.xml, 공시 원문 등)을 별도 의존성 없이 풀기 위해 사용합니다.
+ */
+export class ZipReader {
+    public readonly entries: ZipEntry[];
+
+    /**
+     * @param maxEntrySize 항목 하나의 최대 크기 (선언된 크기가 이보다 크면 풀지 않음)
+     */
+    constructor(private data: Buffer, private maxEntrySize: number = DEFAULT_MAX_ENTRY_SIZE) {
+        this.entries = this.readCentralDirectory();
+    }
+
+    private findEndOfCentralDirectory(): number {
+        // 끝 레코드(22바이트) 뒤에 최대 65535바이트의 주석이 올 수 있음
+        const minOffset = Math.max(0, this.data.length - 22 - 0xffff);
+        for (let offset = this.data.length - 22; offset >= minOffset; offset--) {
+            if (this.data.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+                return offset;
+            }
+        }
+        throw new Error('Not a ZIP file: end of central directory not found');
+    }
+
+    private readCentralDirectory(): ZipEntry[] {
+        if (this.data.length < 22) {
+            throw new Error('Not a ZIP file: too short');
+        }
+
+        const end = this.findEndOfCentralDirectory();
+        const entryCount = this.data.readUInt16LE(end + 10);
+        let offset = this.data.readUInt32LE(end + 16);
+        if (entryCount === 0xffff || offset === 0xffffffff) {
+            throw new Error('ZIP64 archives are not supported');
+        }
+
+        const entries: ZipEntry[] = [];
+        for (let i = 0; i < entryCount; i++) {
+            if (this.data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+                throw new Error(`Corrupt ZIP central directory at entry ${i}`);
+            }
+            const flags = this.data.readUInt16LE(offset + 8);
+            const nameLength = this.data.readUInt16LE(offset + 28);
+            const extraLength = this.data.readUInt16LE(offset + 30);
+            const commentLength = this.data.readUInt16LE(offset + 32);
+            const rawName = this.data.subarray(offset + 46, offset + 46 + nameLength);
+            const name = flags & UTF8_NAME_FLAG ? rawName.toString('utf8') : iconv.decode(rawName, 'cp949');
+
+            entries.push({
+                name,
+                isDirectory: name.endsWith('/'),
+                method: this.data.readUInt16LE(offset + 10),
+                compressedSize: this.data.readUInt32LE(offset + 20),
+                size: this.data.readUInt32LE(offset + 24),
+                localHeaderOffset: this.data.readUInt32LE(offset + 42),
+            });
+            offset += 46 + nameLength + extraLength + commentLength;
+        }
+        return entries;
+    }
+
+    /**
+     * 항목의 압축을 풀어 반환
+     * 선언된 크기보다 많이 풀리는 항목은 선언된 크기에서 압축 해제를 멈추고 오류를 던집니다.
+     */
+    public read(entry: ZipEntry): Buffer {
+        if (entry.size > this.maxEntrySize) {
+            throw new Error(`ZIP entry too large: ${entry.name} (${entry.size} bytes, limit ${this.maxEntrySize})`);
+        }
+        const offset = entry.localHeaderOffset;
+        if (this.data.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+            throw new Error(`Corrupt ZIP local header: ${entry.name}`);
+        }
+        const dataStart = offset + 30 + this.data.readUInt16LE(offset + 26) + this.data.readUInt16LE(offset + 28);
+        const compressed = this.data.subarray(dataStart, dataStart + entry.compressedSize);
+
+        const content = entry.method === 0 ? Buffer.from(compressed)
+            : entry.method === 8 ? this.inflate(entry, compressed)
+            : null;
+        if (!content) {
+            throw new Error(`Unsupported ZIP compression method ${entry.method}: ${entry.name}`);
+        }
+        if (content.length !== entry.size) {
+            throw new Error(`ZIP entry size mismatch: ${entry.name} (expected ${entry.size}, got ${content.length})`);
+        }
+        return content;
+    }
+
+    private inflate(entry: ZipEntry, compressed: Buffer): Buffer {
+        try {
+            return zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(entry.size, 1) });
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+                throw new Error(`ZIP entry size mismatch: ${entry.name} (inflates to more than the declared ${entry.size} bytes)`);
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,15 @@
+import { DartFetcher } from "./DartFetcher";
+import { createHankyungConsensusFetcher, HANKYUNG_CATEGORIES } from "./HankyungConsensusFetcher";
+import { createMiraeAssetFetcher, MIRAE_CATEGORIES } from "./MiraeAssetFetcher";
+import { OpenDartFetcher } from "./OpenDartFetcher";
+import { SourceRegistry } from "./lib/SourceRegistry";
+
+/**
+ * CLI에서 사용할 수 있는 수집 소스
+ * 새 소스는 SourceAdapter를 구현한 파일 하나를 추가하고 여기에 등록합니다.
+ */
+export const sourceRegistry = new SourceRegistry()
+    .register("dart", () => new DartFetcher())
+    .register("opendart", () => new OpenDartFetcher())
+    .register("hankyung", createHankyungConsensusFetcher, HANKYUNG_CATEGORIES)
+    .register("mirae", createMiraeAssetFetcher, MIRAE_CATEGORIES);
@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { linkAmendments, parseAmendedReportName } from "../src/DartAmendments";
+
+function filing(rcpNo: string, reportName: string, remarks = "-") {
+    return { rcpNo, reportName, remarks, href: `https://dart.fss.or.kr/dsaf001/main.do?rcpNo=${rcpNo}` };
+}
+
+describe("parseAmendedReportName", () => {
+    test("separates the amendment tag from the report name", () => {
+        assert.deepEqual(parseAmendedReportName("[기재정정]사업보고서 (2023.12)"), { amendmentType: "기재정정", baseReportName: "사업보고서 (2023.12)" });
+        assert.deepEqual(parseAmendedReportName("[첨부추가] [첨부정정]  반기보고서"), { amendmentType: "첨부정정", baseReportName: "반기보고서" });
+        assert.deepEqual(parseAmendedReportName("[발행조건확정]증권신고서"), { amendmentType: null, baseReportName: "증권신고서" });
+    });
+});
+
+describe("linkAmendments", () => {
+    test("chains amendments after the original in receipt order and keeps the input order", () => {
+        const linked = linkAmendments([
+            filing("20240410000003", "[기재정정]사업보고서 (2023.12)"),
+            filing("20240320000001", "사업보고서 (2023.12)"),
+            filing("20240401000002", "[첨부정정]사업보고서 (2023.12)"),
+        ]);
+
+        assert.deepEqual(linked.map(item => item.rcpNo), ["20240410000003", "20240320000001", "20240401000002"]);
+        const [latest, original, middle] = linked.map(item => item.amendment);
+        assert.deepEqual(original, {
+            amendmentType: null,
+            baseReportName: "사업보고서 (2023.12)",
+            originalRcpNo: "20240320000001",
+            amends: null,
+            supersededBy: "20240401000002",
+            superseded: true,
+            version: 0,
+        });
+        assert.equal(middle.amends, "20240320000001");
+        assert.equal(middle.supersededBy, "20240410000003");
+        assert.equal(middle.version, 1);
+        assert.equal(latest.amends, "20240401000002");
+        assert.equal(latest.supersededBy, null);
+        assert.equal(latest.superseded, false);
+        assert.equal(latest.version, 2);
+    });
+
+    test("starts a new chain for each original with the same report name", () => {
+        const [first, second, amendment] = linkAmendments([
+            filing("20240101000001", "주요사항보고서(자기주식취득결정)"),
+            filing("20240601000002", "주요사항보고서(자기주식취득결정)"),
+            filing("20240605000003", "[기재정정]주요사항보고서(자기주식취득결정)"),
+        ]).map(item => item.amendment);
+
+        assert.equal(first.superseded, false);
+        assert.equal(second.supersededBy, "20240605000003");
+        assert.equal(amendment.originalRcpNo, "20240601000002");
+    });
+
+    test("marks filings with the 정 remark as superseded even without a later version", () => {
+        const [original] = linkAmendments([filing("20240101000001", "감사보고서제출", "유 정")]).map(item => item.amendment);
+        assert.equal(original.superseded, true);
+        assert.equal(original.supersededBy, null);
+    });
+
+    test("leaves the original unknown when the chain starts with an amendment", () => {
+        const [amendment] = linkAmendments([filing("20240605000003", "[기재정정]주요사항보고서(유상증자결정)")]).map(item => item.amendment);
+        assert.equal(amendment.originalRcpNo, null);
+        assert.equal(amendment.amendmentType, "기재정정");
+        assert.equal(amendment.version, 0);
+    });
+});
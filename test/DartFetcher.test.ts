@@ -0,0 +1,113 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { buildFilingPath, DartFetcher, getFilingDate, parsePageInfo } from "../src/DartFetcher";
+import { configureLogging } from "../src/lib/Logger";
+import { CrawlJob, Listing, SourceContext } from "../src/lib/SourceAdapter";
+
+describe("parsePageInfo", () => {
+    test("reads the current page, page count and total count", () => {
+        const html = `<table></table><div class="pageInfo">[2/5] [총 1,234건]</div>`;
+        assert.deepEqual(parsePageInfo(html), { currentPage: 2, totalPages: 5, totalCount: 1234 });
+    });
+
+    test("allows whitespace inside the page info", () => {
+        const html = `<div class="pageInfo">\n  [ 1 / 1 ]\n  [총 3 건]\n</div>`;
+        assert.deepEqual(parsePageInfo(html), { currentPage: 1, totalPages: 1, totalCount: 3 });
+    });
+
+    test("returns a null total count when only the page numbers are shown", () => {
+        assert.deepEqual(parsePageInfo(`<div class="pageInfo">[3/7]</div>`), { currentPage: 3, totalPages: 7, totalCount: null });
+    });
+
+    test("returns null without a page info area", () => {
+        assert.equal(parsePageInfo(`<div class="tbListInner">조회 결과가 없습니다.</div>`), null);
+        assert.equal(parsePageInfo(`<div class="pageInfo"></div>`), null);
+    });
+});
+
+describe("buildFilingPath", () => {
+    test("uses the receive date, or the receipt number date when it is missing", () => {
+        assert.equal(getFilingDate({ receiveDate: "2024.03.15", rcpNo: "20240320000456" }), "2024-03-15");
+        assert.equal(buildFilingPath({ receiveDate: "", rcpNo: "20240320000456" }, "20240320000456_9876543", "pdf"), "DART/공시자료/2024/03/20240320000456_9876543.pdf");
+    });
+});
+
+/** 검색 결과 행 (회사명, 고유번호, 접수번호) */
+type SearchRow = [corpName: string, corpCode: string, rcpNo: string];
+
+function searchResultHtml(page: number, totalPages: number, rows: SearchRow[]): string {
+    const cells = rows.map(([corpName, corpCode, rcpNo], i) => `<tr>
+        <td>${i + 1}</td>
+        <td><a href="#none" onclick="openCorpInfoNew('${corpCode}', 'winCorpInfo', '/dsae001/selectPopup.ax');">${corpName}</a></td>
+        <td><a href="/dsaf001/main.do?rcpNo=${rcpNo}">분기보고서 (2024.03)</a></td>
+        <td>${corpName}</td>
+        <td>${rcpNo.slice(0, 4)}.${rcpNo.slice(4, 6)}.${rcpNo.slice(6, 8)}</td>
+        <td></td>
+    </tr>`);
+    return `<table><tbody id="tbody">${cells.join("")}</tbody></table><div class="pageInfo">[${page}/${totalPages}] [총 ${rows.length}건]</div>`;
+}
+
+/** 요청을 보내지 않고 미리 준비한 검색 결과를 돌려주는 컨텍스트 */
+function createContext(html: string): SourceContext {
+    return {
+        request: async <T>() => ({ data: html }) as T,
+        downloadOptions: {},
+    };
+}
+
+describe("DartFetcher company matching", () => {
+    const originalCwd = process.cwd();
+    let workDir: string;
+    const listing: Listing = {
+        name: "DART-하스-공시자료",
+        sourceConfig: { sourceName: "DART", categoryId: "하스", categoryName: "공시자료" },
+        startDate: { year: 2024, month: 1, day: 1 },
+        endDate: { year: 2024, month: 12, day: 31 },
+        query: "하스",
+    };
+    const job: CrawlJob = { startDate: listing.startDate, endDate: listing.endDate, companies: [{ name: "하스", listingDate: null, ticker: null }] };
+
+    beforeEach(() => {
+        configureLogging({ level: "error" });
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), "dart-test-"));
+        process.chdir(workDir);
+    });
+
+    afterEach(() => {
+        process.chdir(originalCwd);
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    test("keeps the first corp code of a name and reports the others, also on resumed pages", async () => {
+        const firstPage = await new DartFetcher().fetchPage(listing, 1, createContext(searchResultHtml(1, 2, [
+            ["하스", "01111111", "20240515000001"],
+            ["하스코", "02222222", "20240514000002"],
+            ["(주)하스", "03333333", "20240513000003"],
+        ])));
+        assert.deepEqual(firstPage.records.map(record => record.metadata.rcpNo), ["20240515000001"]);
+        assert.equal(firstPage.excludedCount, 2);
+
+        // 이어서 실행: 첫 페이지는 상태 파일에서 읽고 두 번째 페이지만 요청
+        const fetcher = new DartFetcher();
+        fetcher.restorePage(listing, firstPage.records, firstPage.excluded ?? []);
+        const secondPage = await fetcher.fetchPage(listing, 2, createContext(searchResultHtml(2, 2, [
+            ["하스", "03333333", "20240301000004"],
+            ["하스", "01111111", "20240228000005"],
+        ])));
+        assert.deepEqual(secondPage.records.map(record => record.metadata.rcpNo), ["20240228000005"]);
+
+        await fetcher.finish(job);
+        const [reportFile] = fs.readdirSync("downloads");
+        const report = JSON.parse(fs.readFileSync(path.join("downloads", reportFile), "utf8"));
+        assert.equal(report.companies.length, 1);
+        assert.equal(report.companies[0].sameNameIssuers, true);
+        assert.deepEqual(report.companies[0].issuers.map((issuer: { corpCode: string, filings: number, accepted: boolean }) => [issuer.corpCode, issuer.filings, issuer.accepted]), [
+            ["01111111", 2, true],
+            ["02222222", 1, false],
+            ["03333333", 2, false],
+        ]);
+    });
+});
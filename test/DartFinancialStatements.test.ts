@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { extractFinancialStatements, parseAmount, parseUnit } from "../src/DartFinancialStatements";
+
+const FILING = { rcpNo: "20240320000001", corpName: "파두", corpCode: "01234567" };
+
+describe("parseUnit", () => {
+    test("reads the unit notation", () => {
+        assert.equal(parseUnit("(단위 : 백만원)"), "백만원");
+        assert.equal(parseUnit("단위: 천원"), "천원");
+        assert.equal(parseUnit("(단위：원)"), "원");
+        assert.equal(parseUnit("(단위 : 십억원)"), "십억원");
+        assert.equal(parseUnit("재무상태표"), null);
+    });
+});
+
+describe("parseAmount", () => {
+    test("reads negative notations and ignores empty cells", () => {
+        assert.equal(parseAmount("1,234"), 1234);
+        assert.equal(parseAmount("(1,234)"), -1234);
+        assert.equal(parseAmount("△ 500"), -500);
+        assert.equal(parseAmount("-"), null);
+        assert.equal(parseAmount(""), null);
+    });
+});
+
+describe("extractFinancialStatements", () => {
+    const html = `
+        <html><body>
+        <p>연결 재무상태표</p>
+        <p>제 55 기 2023.12.31 현재</p>
+        <p>제 54 기 2022.12.31 현재</p>
+        <p>(단위 : 백만원)</p>
+        <table>
+            <tr><th>과목</th><th>주석</th><th>제 55 기</th><th>제 54 기</th></tr>
+            <tr><td>자산총계</td><td>5</td><td>1,234</td><td>1,000</td></tr>
+            <tr><td>이익잉여금</td><td></td><td>(20)</td><td>-</td></tr>
+        </table>
+        <p>연결 자본변동표</p>
+        <table>
+            <tr><th>과목</th><th>자본금</th></tr>
+            <tr><td>기초자본</td><td>100</td></tr>
+        </table>
+        <p>연결 포괄손익계산서</p>
+        <p>(단위 : 원)</p>
+        <table>
+            <tr><th rowspan="2">과목</th><th colspan="2">제 55 기</th></tr>
+            <tr><th>3개월</th><th>누적</th></tr>
+            <tr><td>매출액</td><td>300</td><td>900</td></tr>
+        </table>
+        </body></html>`;
+
+    test("reads statement values scaled to won with their periods", () => {
+        const items = extractFinancialStatements(html, FILING, "2. 연결재무제표");
+        const balance = items.filter(item => item.statement === "balanceSheet");
+
+        assert.deepEqual(balance.map(item => [item.account, item.period, item.periodEnd, item.value]), [
+            ["자산총계", "제 55 기", "2023-12-31", 1_234_000_000],
+            ["자산총계", "제 54 기", "2022-12-31", 1_000_000_000],
+            ["이익잉여금", "제 55 기", "2023-12-31", -20_000_000],
+        ]);
+        assert.equal(balance[0].statementTitle, "연결 재무상태표");
+        assert.equal(balance[0].consolidated, true);
+        assert.equal(balance[0].reportedValue, "1,234");
+        assert.equal(balance[0].reportedUnit, "백만원");
+        assert.equal(balance[0].corpCode, "01234567");
+        assert.equal(balance[0].stockCode, null);
+    });
+
+    test("skips the statement of changes in equity and combines merged header cells", () => {
+        const items = extractFinancialStatements(html, FILING, "2. 연결재무제표");
+        assert.ok(!items.some(item => item.account === "기초자본"));
+
+        const income = items.filter(item => item.statement === "incomeStatement");
+        assert.deepEqual(income.map(item => [item.account, item.period, item.value, item.reportedUnit]), [
+            ["매출액", "제 55 기 3개월", 300, "원"],
+            ["매출액", "제 55 기 누적", 900, "원"],
+        ]);
+    });
+
+    test("returns no items for tables before any statement title", () => {
+        assert.deepEqual(extractFinancialStatements("<table><tr><td>매출액</td><td>300</td></tr></table>", FILING), []);
+    });
+});
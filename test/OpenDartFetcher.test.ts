@@ -0,0 +1,253 @@
+import assert from "node:assert/strict";
+import { after, afterEach, before, beforeEach, describe, test } from "node:test";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { buildFilingPath, SearchResultItem } from "../src/DartFetcher";
+import { OpenDartFetcher, parseCorpCodeXml } from "../src/OpenDartFetcher";
+import { CrawlPipeline } from "../src/lib/CrawlPipeline";
+import { configureLogging } from "../src/lib/Logger";
+import { CrawlJob } from "../src/lib/SourceAdapter";
+import { createZip } from "./helpers/zip";
+
+const API_KEY = "test-api-key-0123456789";
+
+const CORP_CODE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<result>
+    <list>
+        <corp_code>01234567</corp_code>
+        <corp_name>파두</corp_name>
+        <stock_code>440110</stock_code>
+        <modify_date>20240101</modify_date>
+    </list>
+    <list>
+        <corp_code>07654321</corp_code>
+        <corp_name>공시없음</corp_name>
+        <stock_code> </stock_code>
+        <modify_date>20240101</modify_date>
+    </list>
+</result>`;
+
+const FILINGS = [
+    { corp_code: "01234567", corp_name: "파두", stock_code: "440110", report_nm: "주요사항보고서(유상증자결정)", rcept_no: "20240315000123", flr_nm: "파두", rcept_dt: "20240315", rm: "" },
+    { corp_code: "01234567", corp_name: "파두", stock_code: "440110", report_nm: "[기재정정]주요사항보고서(유상증자결정)", rcept_no: "20240320000456", flr_nm: "파두", rcept_dt: "20240320", rm: "" },
+];
+
+/**
+ * OpenDART API 모의 서버 (corpCode.xml, list.json, document.xml)
+ * list.json은 첫 요청에 요청 제한(020)으로 응답하고, 공시가 없는 기업은 013으로 응답합니다.
+ */
+class MockOpenDartServer {
+    private server = http.createServer((request, response) => this.handle(request, response));
+    public requests: URL[] = [];
+    public filings = FILINGS;
+    private listRequests = 0;
+
+    public get baseUrl(): string {
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    public listen(): Promise<void> {
+        return new Promise(resolve => this.server.listen(0, "127.0.0.1", resolve));
+    }
+
+    public close(): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    public reset(): void {
+        this.requests = [];
+        this.filings = FILINGS;
+        this.listRequests = 0;
+    }
+
+    private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+        const url = new URL(request.url ?? "/", this.baseUrl);
+        this.requests.push(url);
+        const json = (body: object) => {
+            response.writeHead(200, { "Content-Type": "application/json; charset=utf-8" });
+            response.end(JSON.stringify(body));
+        };
+
+        if (url.searchParams.get("crtfc_key") !== API_KEY) {
+            json({ status: "010", message: "등록되지 않은 키입니다." });
+            return;
+        }
+        if (url.pathname === "/api/corpCode.xml") {
+            response.writeHead(200, { "Content-Type": "application/x-msdownload" });
+            response.end(createZip({ "CORPCODE.xml": CORP_CODE_XML }));
+        } else if (url.pathname === "/api/list.json") {
+            this.listRequests++;
+            if (this.listRequests === 1) {
+                json({ status: "020", message: "요청 제한을 초과하였습니다." });
+                return;
+            }
+            const bgnDe = url.searchParams.get("bgn_de") ?? "";
+            const endDe = url.searchParams.get("end_de") ?? "";
+            const list = this.filings.filter(item => item.corp_code === url.searchParams.get("corp_code") && item.rcept_dt >= bgnDe && item.rcept_dt <= endDe);
+            if (list.length === 0) {
+                json({ status: "013", message: "조회된 데이타가 없습니다." });
+                return;
+            }
+            json({ status: "000", message: "정상", page_no: 1, page_count: 100, total_count: list.length, total_page: 1, list });
+        } else if (url.pathname === "/api/document.xml") {
+            const rcpNo = url.searchParams.get("rcept_no");
+            response.writeHead(200, { "Content-Type": "application/x-msdownload" });
+            response.end(createZip({ [`${rcpNo}.xml`]: `<DOCUMENT><DOCUMENT-NAME>${rcpNo}</DOCUMENT-NAME></DOCUMENT>` }));
+        } else {
+            response.writeHead(404);
+            response.end();
+        }
+    }
+}
+
+function listFiles(folder: string): string[] {
+    return fs.readdirSync(folder, { withFileTypes: true }).flatMap(entry => {
+        const entryPath = path.join(folder, entry.name);
+        return entry.isDirectory() ? listFiles(entryPath) : [entryPath];
+    });
+}
+
+function readJson<T>(filePath: string): T {
+    return JSON.parse(fs.readFileSync(filePath, "utf8"));
+}
+
+describe("OpenDartFetcher", () => {
+    const server = new MockOpenDartServer();
+    const originalCwd = process.cwd();
+    let workDir: string;
+
+    const createPipeline = () => new CrawlPipeline("opendart", new OpenDartFetcher({
+        apiKey: API_KEY,
+        baseUrl: server.baseUrl,
+        corpCodeCachePath: "./downloads/opendart-corpcode.json",
+    }), {
+        assumeYes: true,
+        rateLimit: { requestsPerSecond: 1000, maxConcurrency: 2, jitterMs: 0 },
+        retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 10 },
+    });
+
+    const createJob = (overrides: Partial<CrawlJob> = {}): CrawlJob => ({
+        startDate: { year: 2024, month: 1, day: 1 },
+        endDate: { year: 2024, month: 12, day: 31 },
+        companies: [{ name: "파두", listingDate: null, ticker: null }, { name: "공시없음", listingDate: null, ticker: null }],
+        ...overrides,
+    });
+
+    before(async () => {
+        configureLogging({ level: "error" });
+        await server.listen();
+    });
+
+    after(async () => {
+        await server.close();
+    });
+
+    beforeEach(() => {
+        server.reset();
+        // 코퍼스 루트(./downloads)가 임시 폴더 아래에 만들어지도록 작업 폴더를 바꿈
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), "opendart-test-"));
+        process.chdir(workDir);
+    });
+
+    afterEach(() => {
+        process.chdir(originalCwd);
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    test("parses corpCode.xml entries", () => {
+        assert.deepEqual(parseCorpCodeXml(CORP_CODE_XML), [
+            { corpCode: "01234567", corpName: "파두", stockCode: "440110", modifyDate: "20240101" },
+            { corpCode: "07654321", corpName: "공시없음", stockCode: null, modifyDate: "20240101" },
+        ]);
+    });
+
+    test("collects filings from the mock server without storing the API key", async () => {
+        const { report } = await createPipeline().run(createJob());
+
+        assert.equal(report.listingCount, 2);
+        assert.deepEqual(report.failedListings, []);
+        assert.equal(report.totals.downloaded, 2);
+        const [fadu, empty] = report.listings;
+        assert.equal(fadu.listing, "OpenDART-파두-공시자료");
+        assert.equal(empty.listing, "OpenDART-공시없음-공시자료");
+        assert.equal(empty.status, "completed");
+        assert.equal(empty.documents.length, 0);
+
+        // 요청 제한(020) 응답은 재시도되고, 모든 요청에 인증키가 붙음
+        assert.ok(server.requests.every(url => url.searchParams.get("crtfc_key") === API_KEY));
+        assert.equal(server.requests.filter(url => url.pathname === "/api/list.json").length, 3);
+
+        const base = "downloads/OpenDART-파두-공시자료-20240101-20241231";
+        const fileLinks = readJson<{ url: string, filename: string }[]>(`${base}.json`);
+        assert.deepEqual(fileLinks, FILINGS.map(item => ({
+            url: `${server.baseUrl}/api/document.xml?rcept_no=${item.rcept_no}`,
+            filename: buildFilingPath({ receiveDate: "", rcpNo: item.rcept_no }, item.rcept_no, "zip"),
+        })));
+        assert.ok(fs.existsSync(path.join("downloads", fileLinks[0].filename)));
+
+        const metadata = readJson<(SearchResultItem & { url: string })[]>(`${base}-meta.json`);
+        const [original, amendment] = metadata;
+        assert.equal(original.corpName, "파두");
+        assert.equal(original.corpCode, "01234567");
+        assert.equal(original.stockCode, "440110");
+        assert.equal(original.receiveDate, "2024.03.15");
+        assert.equal(original.remarks, "-");
+        assert.equal(original.href, "https://dart.fss.or.kr/dsaf001/main.do?rcpNo=20240315000123");
+        assert.equal(original.amendment?.superseded, true);
+        assert.equal(original.amendment?.supersededBy, "20240320000456");
+        assert.equal(amendment.reportName, "[기재정정]주요사항보고서(유상증자결정)");
+        assert.equal(amendment.amendment?.amends, "20240315000123");
+        assert.equal(amendment.archive?.members[0].name, "20240320000456.xml");
+
+        for (const filePath of listFiles(workDir)) {
+            const content = fs.readFileSync(filePath, "utf8");
+            assert.ok(!content.includes(API_KEY) && !content.includes("crtfc_key"), `${filePath} contains the API key`);
+        }
+    });
+
+    test("marks an original from an earlier sync superseded when a later sync finds its amendment", async () => {
+        const job = createJob({ companies: [{ name: "파두", listingDate: null, ticker: null }], sync: true });
+        // 두 번째 동기화는 기준점(5월 공시)에서 겹치는 기간만 다시 검색하므로 3월의 원본 공시는 검색되지 않음
+        const report = { ...FILINGS[0], report_nm: "분기보고서 (2024.03)", rcept_no: "20240515000321", rcept_dt: "20240515" };
+        const amendment = { ...FILINGS[1], rcept_no: "20240620000789", rcept_dt: "20240620" };
+        server.filings = [FILINGS[0], report];
+        await createPipeline().run(job);
+        server.filings = [FILINGS[0], report, amendment];
+        await createPipeline().run(job);
+
+        assert.equal(server.requests.filter(url => url.pathname === "/api/list.json").at(-1)?.searchParams.get("bgn_de"), "20240512");
+        const metadata = readJson<SearchResultItem[]>("downloads/OpenDART-파두-공시자료-meta.json");
+        assert.deepEqual(metadata.map(item => item.rcpNo), ["20240315000123", "20240515000321", "20240620000789"]);
+        assert.equal(metadata[0].amendment?.superseded, true);
+        assert.equal(metadata[0].amendment?.supersededBy, "20240620000789");
+        assert.equal(metadata[1].amendment?.superseded, false);
+        assert.equal(metadata[2].amendment?.amends, "20240315000123");
+    });
+
+    test("queues only the filings found by the current sync", async () => {
+        const job = createJob({ companies: [{ name: "파두", listingDate: null, ticker: null }], sync: true });
+        const report = { ...FILINGS[0], report_nm: "분기보고서 (2024.03)", rcept_no: "20240515000321", rcept_dt: "20240515" };
+        const later = { ...FILINGS[0], report_nm: "반기보고서 (2024.06)", rcept_no: "20240814000654", rcept_dt: "20240814" };
+        server.filings = [FILINGS[0], report];
+        await createPipeline().run(job);
+        server.requests = [];
+        server.filings = [FILINGS[0], report, later];
+        const { report: second } = await createPipeline().run(job);
+
+        // 기준점과 겹치는 5월 공시는 건너뛰고, 3월 공시는 다시 큐에 넣거나 조회하지 않음
+        const [listing] = second.listings;
+        assert.deepEqual(listing.documents.map(document => [path.basename(document.filename, ".zip"), document.outcome]), [
+            ["20240515000321", "skipped"],
+            ["20240814000654", "downloaded"],
+        ]);
+        assert.equal(second.totals.downloaded, 1);
+        assert.equal(second.totals.skipped, 1);
+        assert.deepEqual(server.requests.filter(url => url.pathname === "/api/document.xml").map(url => url.searchParams.get("rcept_no")), ["20240814000654"]);
+
+        const metadata = readJson<SearchResultItem[]>("downloads/OpenDART-파두-공시자료-meta.json");
+        assert.deepEqual(metadata.map(item => item.rcpNo), ["20240315000123", "20240515000321", "20240814000654"]);
+    });
+});
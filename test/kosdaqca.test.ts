@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import * as fs from "fs";
+import * as path from "path";
+import { parseMemberList } from "../src/kosdaqca";
+
+/** 코스닥협회 회원사 게시판 목록 페이지 (회원사 4곳) */
+const MEMBER_LIST_HTML = fs.readFileSync(path.resolve(__dirname, "../../test/fixtures/kosdaqca-member-list.html"), "utf8");
+
+describe("parseMemberList", () => {
+    test("reads company name, ticker and listing date by column header", () => {
+        assert.deepEqual(parseMemberList(MEMBER_LIST_HTML), [
+            { name: "파두", listingDate: "2023-08-07", ticker: "440110" },
+            { name: "레인보우로보틱스", listingDate: "2021-02-03", ticker: "277810" },
+            { name: "에코프로비엠", listingDate: "2019-03-05", ticker: "247540" },
+            { name: "알테오젠", listingDate: null, ticker: "196170" },
+        ]);
+    });
+
+    test("finds columns in a different order and uses the post subject without a company column", () => {
+        const html = `<table>
+            <tr><th>상장일</th><th>제목</th><th>코드</th></tr>
+            <tbody>
+                <tr><td>2024.05.01</td><td class="td_subject"><a href="#">아이씨티케이</a></td><td>456010</td></tr>
+                <tr><td colspan="3">게시물이 없습니다.</td></tr>
+            </tbody>
+        </table>`;
+        assert.deepEqual(parseMemberList(html), [{ name: "아이씨티케이", listingDate: "2024-05-01", ticker: "456010" }]);
+    });
+
+    test("returns no companies for a page past the last one", () => {
+        const html = `<table><thead><tr><th>번호</th><th>회사명</th></tr></thead>
+            <tbody><tr><td colspan="2" class="empty_table">게시물이 없습니다.</td></tr></tbody></table>`;
+        assert.deepEqual(parseMemberList(html), []);
+    });
+});
@@ -0,0 +1,42 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import path from 'path';
+import { classifyArchiveMember, resolveArchivePath } from '../../src/lib/ArchiveExtractor';
+
+describe('resolveArchivePath', () => {
+    const root = path.resolve('extract-root');
+
+    test('resolves entries below the target folder', () => {
+        assert.equal(resolveArchivePath('extract-root', '20240320000456.xml'), path.join(root, '20240320000456.xml'));
+        assert.equal(resolveArchivePath('extract-root', 'sub\\./dir//첨부.pdf'), path.join(root, 'sub', 'dir', '첨부.pdf'));
+    });
+
+    test('replaces characters that cannot be used in file names', () => {
+        assert.equal(resolveArchivePath('extract-root', 'dir/a:b?.xml'), path.join(root, 'dir', 'a_b_.xml'));
+    });
+
+    test('rejects entries that point outside the target folder', () => {
+        assert.equal(resolveArchivePath('extract-root', '../evil.txt'), null);
+        assert.equal(resolveArchivePath('extract-root', 'sub/../../evil.txt'), null);
+        assert.equal(resolveArchivePath('extract-root', '..\\evil.txt'), null);
+        assert.equal(resolveArchivePath('extract-root', '/etc/passwd'), null);
+        assert.equal(resolveArchivePath('extract-root', '\\evil.txt'), null);
+        assert.equal(resolveArchivePath('extract-root', 'C:evil.txt'), null);
+        assert.equal(resolveArchivePath('extract-root', 'C:/Windows/evil.txt'), null);
+    });
+
+    test('rejects entries without a file name', () => {
+        assert.equal(resolveArchivePath('extract-root', ''), null);
+        assert.equal(resolveArchivePath('extract-root', './'), null);
+    });
+});
+
+describe('classifyArchiveMember', () => {
+    test('classifies members by extension', () => {
+        assert.equal(classifyArchiveMember('본문.PDF'), 'pdf');
+        assert.equal(classifyArchiveMember('report.htm'), 'html');
+        assert.equal(classifyArchiveMember('entity.xsd'), 'xbrl');
+        assert.equal(classifyArchiveMember('20240320000456.xml'), 'xml');
+        assert.equal(classifyArchiveMember('readme'), 'other');
+    });
+});
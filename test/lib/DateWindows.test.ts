@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { DateWindow, formatWindow, halveWindow, splitDateRange } from '../../src/lib/DateWindows';
+import { parseSearchDate } from '../../src/lib/SourceAdapter';
+
+const date = (value: string) => parseSearchDate(value, 'test');
+const window = (start: string, end: string): DateWindow => ({ startDate: date(start), endDate: date(end) });
+
+describe('splitDateRange', () => {
+    test('returns the whole range without a window size', () => {
+        assert.deepEqual(splitDateRange(date('20240115'), date('20240320')), [window('20240115', '20240320')]);
+    });
+
+    test('splits by calendar month and trims the first and last windows', () => {
+        assert.deepEqual(splitDateRange(date('20240115'), date('20240320'), 'month').map(formatWindow), [
+            '20240115-20240131',
+            '20240201-20240229',
+            '20240301-20240320',
+        ]);
+    });
+
+    test('starts weeks on Monday', () => {
+        // 2024-01-03은 수요일
+        assert.deepEqual(splitDateRange(date('20240103'), date('20240116'), 'week').map(formatWindow), [
+            '20240103-20240107',
+            '20240108-20240114',
+            '20240115-20240116',
+        ]);
+    });
+
+    test('splits by day across a year boundary', () => {
+        assert.deepEqual(splitDateRange(date('20231231'), date('20240101'), 'day').map(formatWindow), ['20231231-20231231', '20240101-20240101']);
+    });
+
+    test('returns the range as is when the start is after the end', () => {
+        assert.deepEqual(splitDateRange(date('20240201'), date('20240101'), 'month'), [window('20240201', '20240101')]);
+    });
+});
+
+describe('halveWindow', () => {
+    test('splits a window into two adjacent halves', () => {
+        assert.deepEqual(halveWindow(window('20240101', '20240131')), [window('20240101', '20240116'), window('20240117', '20240131')]);
+        assert.deepEqual(halveWindow(window('20240228', '20240301')), [window('20240228', '20240229'), window('20240301', '20240301')]);
+    });
+
+    test('splits a two-day window into single days', () => {
+        assert.deepEqual(halveWindow(window('20240101', '20240102')), [window('20240101', '20240101'), window('20240102', '20240102')]);
+    });
+
+    test('returns null for a single-day window', () => {
+        assert.equal(halveWindow(window('20240101', '20240101')), null);
+    });
+});
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { detectFileType, validateDocument } from '../../src/lib/DocumentValidator';
+import { createZip } from '../helpers/zip';
+
+const PDF = Buffer.from('%PDF-1.4\n1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj\n3 0 obj << /Type /Page /Parent 2 0 R >> endobj\ntrailer << /Root 1 0 R >>\n%%EOF\n');
+const HTML = Buffer.from('<!DOCTYPE html><html><body>로그인이 필요합니다</body></html>');
+
+describe('detectFileType', () => {
+    test('detects types from the leading bytes', () => {
+        assert.equal(detectFileType(PDF), 'pdf');
+        assert.equal(detectFileType(createZip({ 'a.txt': 'a' })), 'zip');
+        assert.equal(detectFileType(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0])), 'ole');
+        assert.equal(detectFileType(HTML), 'html');
+        assert.equal(detectFileType(Buffer.from('\ufeff<?xml version="1.0"?><a/>')), 'xml');
+        assert.equal(detectFileType(Buffer.alloc(0)), 'empty');
+        assert.equal(detectFileType(Buffer.from('plain text')), 'unknown');
+    });
+});
+
+describe('validateDocument', () => {
+    test('accepts a complete PDF and counts its pages', () => {
+        assert.deepEqual(validateDocument(PDF, 'report.pdf', 'application/pdf'), { valid: true, detectedType: 'pdf', pageCount: 1, warning: undefined });
+    });
+
+    test('rejects a truncated PDF', () => {
+        const result = validateDocument(PDF.subarray(0, PDF.length - 7), 'report.pdf');
+        assert.equal(result.valid, false);
+        assert.match(result.reason!, /%%EOF/);
+    });
+
+    test('rejects an HTML page saved as a PDF', () => {
+        const result = validateDocument(HTML, 'report.pdf', 'text/html');
+        assert.equal(result.valid, false);
+        assert.equal(result.detectedType, 'html');
+        assert.match(result.reason!, /HTML page/);
+    });
+
+    test('rejects empty files of any extension', () => {
+        assert.deepEqual(validateDocument(Buffer.alloc(0), 'data.json'), { valid: false, detectedType: 'empty', reason: 'Empty file' });
+    });
+
+    test('checks ZIP archives for a readable central directory', () => {
+        const zip = createZip({ '20240320000456.xml': '<DOCUMENT/>' });
+        assert.equal(validateDocument(zip, 'filing.zip').valid, true);
+
+        const truncated = validateDocument(zip.subarray(0, zip.length - 30), 'filing.zip');
+        assert.equal(truncated.valid, false);
+        assert.match(truncated.reason!, /^Corrupt ZIP/);
+    });
+
+    test('warns when the content type does not match the extension', () => {
+        const result = validateDocument(PDF, 'report.pdf', 'text/html; charset=utf-8');
+        assert.equal(result.valid, true);
+        assert.match(result.warning!, /text\/html/);
+    });
+
+    test('does not check the content of unknown extensions or xls files', () => {
+        assert.equal(validateDocument(HTML, 'table.xls').valid, true);
+        assert.equal(validateDocument(HTML, 'page.html').valid, true);
+    });
+});
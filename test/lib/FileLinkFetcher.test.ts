@@ -0,0 +1,216 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, beforeEach, describe, test } from 'node:test';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { parseMiraeAssetRow } from '../../src/MiraeAssetFetcher';
+import { CrawlPipeline } from '../../src/lib/CrawlPipeline';
+import { FileLinkFetcher, PaginationStrategy } from '../../src/lib/FileLinkFetcher';
+import { HostRateLimiter, RateLimitConfig } from '../../src/lib/HostRateLimiter';
+import { configureLogging } from '../../src/lib/Logger';
+import { CrawlJob, Listing, SourceContext } from '../../src/lib/SourceAdapter';
+
+const RATE_LIMIT: RateLimitConfig = { requestsPerSecond: 1000, maxConcurrency: 2, jitterMs: 0 };
+const RETRY = { maxAttempts: 1, baseDelayMs: 1, maxDelayMs: 1 };
+/** 미래에셋증권 게시판과 같은 커서 방식 */
+const CURSOR_PAGINATION: PaginationStrategy = { type: 'cursor', pageParam: 'curPage', cursorParam: 'startId', initialCursor: 'zzzzz~' };
+const PDF = '%PDF-1.4\n1 0 obj << /Type /Page >> endobj\ntrailer << >>\n%%EOF\n';
+
+interface ListItem {
+    id: number;
+    /** 첨부 링크 title의 파일명 (없으면 title 없음) */
+    filename?: string;
+}
+
+/**
+ * 게시판형 목록 모의 서버
+ * /list?curPage=&startId=로 요청한 목록 페이지와 /files/{id}.pdf 첨부파일을 제공합니다.
+ */
+class MockBoardServer {
+    private server = http.createServer((request, response) => this.handle(request, response));
+    public requests: URL[] = [];
+    /** startId별 목록 페이지 (글 목록과 페이지 링크) */
+    public pages = new Map<string, { items: ListItem[], pageLinks: { page: number, startId?: string }[] }>();
+
+    public get baseUrl(): string {
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    public listen(): Promise<void> {
+        return new Promise(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    }
+
+    public close(): Promise<void> {
+        return new Promise(resolve => this.server.close(() => resolve()));
+    }
+
+    public listRequests(): URL[] {
+        return this.requests.filter(url => url.pathname === '/list');
+    }
+
+    private renderPage(items: ListItem[], pageLinks: { page: number, startId?: string }[]): string {
+        const rows = items.map(item => `<tr>
+            <td>2024.05.${String(31 - item.id % 30).padStart(2, '0')}</td>
+            <td><a href="/view?id=${item.id}">파두(440110) 보고서 ${item.id}</a></td>
+            <td><a href="${this.baseUrl}/files/${item.id}.pdf?attachmentId=${item.id}"${item.filename ? ` title="${item.filename}"` : ''}>첨부</a></td>
+            <td>홍길동</td>
+        </tr>`);
+        const links = pageLinks.map(link => `<a href="/list?curPage=${link.page}${link.startId ? `&startId=${link.startId}` : ''}">${link.page}</a>`);
+        return `<html><body><table><thead><tr><th>작성일</th><th>제목</th><th>첨부</th><th>작성자</th></tr></thead>
+            <tbody>${rows.join('')}</tbody></table><div class="paging">${links.join(' ')}</div></body></html>`;
+    }
+
+    private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+        const url = new URL(request.url ?? '/', this.baseUrl);
+        this.requests.push(url);
+
+        const page = url.pathname === '/list' ? this.pages.get(url.searchParams.get('startId') ?? '') : undefined;
+        if (page) {
+            response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+            response.end(this.renderPage(page.items, page.pageLinks));
+        } else if (url.pathname.startsWith('/files/')) {
+            response.writeHead(200, { 'Content-Type': 'application/pdf' });
+            response.end(PDF);
+        } else {
+            response.writeHead(404);
+            response.end();
+        }
+    }
+}
+
+describe('FileLinkFetcher', () => {
+    const server = new MockBoardServer();
+
+    const createFetcher = (pagination: PaginationStrategy) => new FileLinkFetcher({
+        baseUrl: `${server.baseUrl}/list?categoryId={categoryId}&startId={cursor}&curPage={curPage}`,
+        categories: [{ sourceName: '테스트증권', categoryId: '1800', categoryName: '기업분석' }],
+        startPage: 1,
+        maxItemsPerPage: 2,
+        pagination,
+        downloadPattern: /https?:\/\/[^\s"']+\.pdf(\?[^\s"']+)?/,
+        documentIdPattern: /[?&]attachmentId=(\d+)/,
+        rowParser: parseMiraeAssetRow,
+        pageLoadMode: 'static',
+        rateLimit: RATE_LIMIT,
+    });
+
+    const context: SourceContext = {
+        request: (_url, task) => task(),
+        downloadOptions: { rateLimiter: new HostRateLimiter(), rateLimit: RATE_LIMIT, retry: RETRY },
+    };
+
+    const job: CrawlJob = {
+        startDate: { year: 2024, month: 1, day: 1 },
+        endDate: { year: 2024, month: 12, day: 31 },
+        companies: [],
+    };
+
+    const getListing = async (fetcher: FileLinkFetcher): Promise<Listing> => (await fetcher.discoverListings(job))[0];
+
+    before(async () => {
+        configureLogging({ level: 'error' });
+        await server.listen();
+    });
+
+    after(async () => {
+        await server.close();
+    });
+
+    beforeEach(() => {
+        server.requests = [];
+        server.pages.clear();
+    });
+
+    describe('pageSize pagination', () => {
+        test('continues while a page is full, counting links without a file name in their title', async () => {
+            server.pages.set('', { items: [{ id: 1, filename: '파두_1.pdf' }, { id: 2 }], pageLinks: [] });
+            const fetcher = createFetcher({ type: 'pageSize' });
+
+            const result = await fetcher.fetchPage(await getListing(fetcher), 1, context);
+            assert.equal(result.hasNextPage, true);
+            assert.deepEqual(result.records.map(record => record.fileLinks?.[0].filename), [
+                '테스트증권/기업분석/2024/05/1.pdf',
+                '테스트증권/기업분석/2024/05/2.pdf',
+            ]);
+        });
+
+        test('stops at a page with fewer links than a full page', async () => {
+            server.pages.set('', { items: [{ id: 1, filename: '파두_1.pdf' }], pageLinks: [] });
+            const fetcher = createFetcher({ type: 'pageSize' });
+
+            const result = await fetcher.fetchPage(await getListing(fetcher), 1, context);
+            assert.equal(result.hasNextPage, false);
+            assert.equal(result.nextCursor, undefined);
+        });
+    });
+
+    describe('cursor pagination', () => {
+        test('returns the startId of the next page link as the next cursor', async () => {
+            server.pages.set('zzzzz~', {
+                items: [{ id: 30, filename: 'a.pdf' }, { id: 29, filename: 'b.pdf' }],
+                pageLinks: [{ page: 1, startId: 'zzzzz~' }, { page: 2, startId: '1043' }, { page: 3, startId: '1021' }],
+            });
+            server.pages.set('1043', {
+                items: [{ id: 28, filename: 'c.pdf' }],
+                pageLinks: [{ page: 1, startId: 'zzzzz~' }, { page: 2, startId: '1043' }],
+            });
+            const fetcher = createFetcher(CURSOR_PAGINATION);
+            const listing = await getListing(fetcher);
+
+            const first = await fetcher.fetchPage(listing, 1, context);
+            assert.deepEqual({ hasNextPage: first.hasNextPage, nextCursor: first.nextCursor }, { hasNextPage: true, nextCursor: '1043' });
+            const second = await fetcher.fetchPage(listing, 2, context, first.nextCursor);
+            assert.deepEqual({ hasNextPage: second.hasNextPage, nextCursor: second.nextCursor }, { hasNextPage: false, nextCursor: undefined });
+
+            assert.deepEqual(server.listRequests().map(url => [url.searchParams.get('curPage'), url.searchParams.get('startId')]), [['1', 'zzzzz~'], ['2', '1043']]);
+        });
+
+        test('decides by page size when the page has no cursor links', async () => {
+            server.pages.set('zzzzz~', { items: [{ id: 30, filename: 'a.pdf' }, { id: 29, filename: 'b.pdf' }], pageLinks: [{ page: 2 }] });
+            const fetcher = createFetcher(CURSOR_PAGINATION);
+
+            const result = await fetcher.fetchPage(await getListing(fetcher), 1, context);
+            assert.deepEqual({ hasNextPage: result.hasNextPage, nextCursor: result.nextCursor }, { hasNextPage: true, nextCursor: undefined });
+        });
+    });
+
+    describe('with CrawlPipeline', () => {
+        const originalCwd = process.cwd();
+        let workDir: string;
+
+        beforeEach(() => {
+            workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'filelink-test-'));
+            process.chdir(workDir);
+        });
+
+        afterEach(() => {
+            process.chdir(originalCwd);
+            fs.rmSync(workDir, { recursive: true, force: true });
+        });
+
+        test('follows startId cursors across pages until the last page', async () => {
+            server.pages.set('zzzzz~', {
+                items: [{ id: 30, filename: 'a.pdf' }, { id: 29, filename: 'b.pdf' }],
+                pageLinks: [{ page: 2, startId: '1043' }, { page: 3, startId: '1021' }],
+            });
+            server.pages.set('1043', {
+                items: [{ id: 28, filename: 'c.pdf' }, { id: 27, filename: 'd.pdf' }],
+                pageLinks: [{ page: 1, startId: 'zzzzz~' }, { page: 3, startId: '1021' }],
+            });
+            server.pages.set('1021', {
+                items: [{ id: 26, filename: 'e.pdf' }],
+                pageLinks: [{ page: 1, startId: 'zzzzz~' }, { page: 2, startId: '1043' }],
+            });
+
+            const pipeline = new CrawlPipeline('test', createFetcher(CURSOR_PAGINATION), { assumeYes: true, rateLimit: RATE_LIMIT, retry: RETRY });
+            const { report } = await pipeline.run(job);
+
+            assert.deepEqual(server.listRequests().map(url => url.searchParams.get('startId')), ['zzzzz~', '1043', '1021']);
+            assert.equal(report.totals.downloaded, 5);
+            const fileLinks: { url: string }[] = JSON.parse(fs.readFileSync('downloads/테스트증권-기업분석-20240101-20241231.json', 'utf8'));
+            assert.deepEqual(fileLinks.map(link => new URL(link.url).searchParams.get('attachmentId')), ['30', '29', '28', '27', '26']);
+        });
+    });
+});
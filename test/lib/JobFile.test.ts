@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JobFileError, loadJobFile, validateJobFile } from '../../src/lib/JobFile';
+import { SourceRegistry } from '../../src/lib/SourceRegistry';
+
+const SOURCE_IDS = ['dart', 'opendart', 'hankyung'];
+
+describe('validateJobFile', () => {
+    test('accepts a complete job file', () => {
+        const errors = validateJobFile({
+            name: 'nightly',
+            mode: 'sync',
+            dedup: 'link',
+            assumeYes: true,
+            defaults: { from: '2024-01-01', overlap: 3, rateLimit: { requestsPerSecond: 0.5, maxConcurrency: 1, jitterMs: 500 } },
+            sources: [
+                { source: 'opendart', companies: ['파두'], filters: { disclosureTypes: ['A001'], excludeReport: '기재정정' } },
+                { source: 'hankyung', categories: ['기업분석', '산업분석'], window: 'month', to: '20241231' },
+            ],
+        }, SOURCE_IDS);
+        assert.deepEqual(errors, []);
+    });
+
+    test('requires a non-empty source list', () => {
+        assert.deepEqual(validateJobFile({}, SOURCE_IDS), ['sources: required']);
+        assert.deepEqual(validateJobFile({ sources: [] }, SOURCE_IDS), ['sources: expected at least 1 item(s)']);
+        assert.deepEqual(validateJobFile([], SOURCE_IDS), ['(root): expected an object']);
+    });
+
+    test('reports every error with its path', () => {
+        const errors = validateJobFile({
+            mode: 'full',
+            defaults: { from: '2024/01/01', rateLimit: { maxConcurrency: 1.5, requestsPerSecond: 0 } },
+            sources: [
+                { categories: [] },
+                { source: 'mirae', markdown: 'yes', companies: '파두', overlap: -1 },
+            ],
+        }, SOURCE_IDS);
+        assert.deepEqual(errors, [
+            'mode: expected one of fetch, sync but got "full"',
+            'defaults.from: invalid value "2024/01/01"',
+            'defaults.rateLimit.maxConcurrency: expected an integer',
+            'defaults.rateLimit.requestsPerSecond: must be greater than 0',
+            'sources[0].source: required',
+            'sources[0].categories: expected at least 1 item(s)',
+            'sources[1].source: expected one of dart, opendart, hankyung but got "mirae"',
+            'sources[1].markdown: expected true or false',
+            'sources[1].companies: expected a list',
+            'sources[1].overlap: must be at least 0',
+        ]);
+    });
+
+    test('requires whole numbers for result and page limits', () => {
+        assert.deepEqual(validateJobFile({ defaults: { windowCap: 0, maxPages: 10.5 }, sources: [{ source: 'hankyung', windowCap: 2.5, maxPages: 0 }] }, SOURCE_IDS), [
+            'defaults.windowCap: must be at least 1',
+            'defaults.maxPages: expected an integer',
+            'sources[0].windowCap: expected an integer',
+            'sources[0].maxPages: must be at least 1',
+        ]);
+    });
+
+    test('requires real calendar dates in one of the two date forms', () => {
+        assert.deepEqual(validateJobFile({ defaults: { from: '2024-13-45', to: '20240230' }, sources: [{ source: 'dart', from: '2024-0101', to: '2024-02-29' }] }, SOURCE_IDS), [
+            'defaults.from: invalid value "2024-13-45"',
+            'defaults.to: invalid value "20240230"',
+            'sources[0].from: invalid value "2024-0101"',
+        ]);
+    });
+
+    test('rejects unknown properties as likely typos', () => {
+        assert.deepEqual(validateJobFile({ sources: [{ source: 'dart', companys: ['파두'] }], asumeYes: true }, SOURCE_IDS), [
+            'sources[0].companys: unknown property',
+            'asumeYes: unknown property',
+        ]);
+    });
+
+    test('ignores null values of optional properties', () => {
+        assert.deepEqual(validateJobFile({ name: null, sources: [{ source: 'dart', to: null }] }, SOURCE_IDS), []);
+    });
+});
+
+describe('loadJobFile', () => {
+    const sources = new SourceRegistry()
+        .register('dart', () => { throw new Error('not used'); })
+        .register('hankyung', () => { throw new Error('not used'); }, [
+            { sourceName: '한경컨센서스', categoryId: 'CO', categoryName: '기업분석' },
+            { sourceName: '한경컨센서스', categoryId: 'IN', categoryName: '산업분석' },
+        ]);
+    let workDir: string;
+
+    const writeJobFile = (content: object): string => {
+        const filePath = path.join(workDir, 'job.json');
+        fs.writeFileSync(filePath, JSON.stringify(content), 'utf8');
+        return filePath;
+    };
+
+    beforeEach(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jobfile-test-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    test('creates one task per category given by ID or name', () => {
+        const plan = loadJobFile(writeJobFile({
+            defaults: { from: '2024-01-01', to: '2024-03-31' },
+            sources: [{ source: 'hankyung', categories: ['CO', '산업분석'] }],
+        }), sources);
+        assert.deepEqual(plan.tasks.map(task => [task.label, task.job.category]), [['hankyung:CO', 'CO'], ['hankyung:산업분석', '산업분석']]);
+    });
+
+    test('rejects categories the source does not have', () => {
+        const filePath = writeJobFile({
+            defaults: { from: '2024-01-01', to: '2024-03-31' },
+            sources: [{ source: 'hankyung', categories: ['CO', '기업 분석'] }, { source: 'dart', categories: ['CO'] }],
+        });
+        assert.throws(() => loadJobFile(filePath, sources), (error: unknown) => {
+            assert.ok(error instanceof JobFileError);
+            assert.deepEqual(error.errors, [
+                'sources[0].categories[1]: unknown category "기업 분석" (available: CO(기업분석), IN(산업분석))',
+                'sources[1].categories[0]: dart has no categories',
+            ]);
+            return true;
+        });
+    });
+});
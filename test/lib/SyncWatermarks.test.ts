@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { configureLogging } from '../../src/lib/Logger';
+import { DocumentRecord, Listing } from '../../src/lib/SourceAdapter';
+import { WatermarkStore } from '../../src/lib/SyncWatermarks';
+
+function createListing(name: string, endDay = 31): Listing {
+    return {
+        name,
+        sourceConfig: { sourceName: 'DART', categoryId: '파두', categoryName: '공시자료' },
+        startDate: { year: 2024, month: 1, day: 1 },
+        endDate: { year: 2024, month: 3, day: endDay },
+        query: '01234567',
+    };
+}
+
+const record = (key: string, date?: string | null): DocumentRecord => ({ key, metadata: {}, date });
+
+describe('WatermarkStore.update', () => {
+    let folder: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        configureLogging({ level: 'error' });
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'watermark-test-'));
+        filePath = path.join(folder, 'nested', 'sync-watermarks.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('records the latest document and the documents within the overlap', () => {
+        const store = new WatermarkStore(filePath);
+        const watermark = store.update(createListing('DART-파두-공시자료'), [
+            record('a', '2024-03-01'),
+            record('b', '2024-03-20'),
+            record('c', '2024-03-18'),
+            record('d', '2024-03-17'),
+            record('undated', null),
+        ], 3);
+
+        assert.equal(watermark.latestDate, '2024-03-20');
+        assert.equal(watermark.latestKey, 'b');
+        assert.deepEqual(watermark.recentDocuments, [{ key: 'b', date: '2024-03-20' }, { key: 'c', date: '2024-03-18' }, { key: 'd', date: '2024-03-17' }]);
+        assert.equal(watermark.syncedTo, '20240331');
+        assert.equal(watermark.query, '01234567');
+        assert.deepEqual(store.get(createListing('DART-파두-공시자료')), watermark);
+        assert.deepEqual(store.getKnownKeys(createListing('DART-파두-공시자료')), new Set(['b', 'c', 'd']));
+    });
+
+    test('keeps the previous watermark when no newer documents are found', () => {
+        const store = new WatermarkStore(filePath);
+        store.update(createListing('DART-파두-공시자료'), [record('b', '2024-03-20'), record('c', '2024-03-19')], 3);
+        const watermark = store.update(createListing('DART-파두-공시자료', 25), [record('old', '2024-02-01')], 3);
+
+        assert.equal(watermark.latestDate, '2024-03-20');
+        assert.equal(watermark.latestKey, 'b');
+        assert.deepEqual(watermark.recentDocuments.map(document => document.key), ['b', 'c']);
+        assert.equal(watermark.syncedTo, '20240325');
+    });
+
+    test('moves the overlap forward and drops documents that fall out of it', () => {
+        const store = new WatermarkStore(filePath);
+        store.update(createListing('DART-파두-공시자료'), [record('b', '2024-03-20'), record('c', '2024-03-19')], 3);
+        const watermark = store.update(createListing('DART-파두-공시자료'), [record('e', '2024-03-23'), record('b', '2024-03-20')], 3);
+
+        assert.equal(watermark.latestKey, 'e');
+        assert.deepEqual(watermark.recentDocuments, [{ key: 'b', date: '2024-03-20' }, { key: 'e', date: '2024-03-23' }]);
+    });
+
+    test('keeps a null latest date when no document has a date', () => {
+        const watermark = new WatermarkStore(filePath).update(createListing('한경컨센서스-기업분석'), [record('x')], 3);
+        assert.equal(watermark.latestDate, null);
+        assert.deepEqual(watermark.recentDocuments, []);
+    });
+
+    test('keeps the watermarks of other listings in the same file', () => {
+        new WatermarkStore(filePath).update(createListing('DART-파두-공시자료'), [record('a', '2024-03-01')], 3);
+        new WatermarkStore(filePath).update(createListing('OpenDART-파두-공시자료'), [record('b', '2024-03-02')], 3);
+
+        const saved = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        assert.deepEqual(Object.keys(saved), ['DART-파두-공시자료', 'OpenDART-파두-공시자료']);
+        assert.ok(!fs.existsSync(`${filePath}.tmp`));
+    });
+});
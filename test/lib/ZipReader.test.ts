@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import * as iconv from 'iconv-lite';
+import { ZipReader } from '../../src/lib/ZipReader';
+import { createZip } from '../helpers/zip';
+
+describe('ZipReader', () => {
+    test('lists and inflates entries', () => {
+        const reader = new ZipReader(createZip({ '20240320000456.xml': '<DOCUMENT>정정</DOCUMENT>', '첨부/감사보고서.pdf': Buffer.from([1, 2, 3]) }));
+
+        assert.deepEqual(reader.entries.map(entry => entry.name), ['20240320000456.xml', '첨부/감사보고서.pdf']);
+        assert.equal(reader.read(reader.entries[0]).toString('utf8'), '<DOCUMENT>정정</DOCUMENT>');
+        assert.deepEqual(reader.read(reader.entries[1]), Buffer.from([1, 2, 3]));
+    });
+
+    test('decodes names without the UTF-8 flag as CP949', () => {
+        const zip = createZip({ 'abcd.xml': 'x' });
+        const centralDirectory = zip.readUInt32LE(zip.length - 6);
+        // 이름 길이가 같은 CP949 이름으로 바꾸고 UTF-8 플래그를 지움
+        const name = iconv.encode('공시.xml', 'cp949');
+        assert.equal(name.length, 'abcd.xml'.length);
+        zip.writeUInt16LE(0, centralDirectory + 8);
+        name.copy(zip, centralDirectory + 46);
+
+        assert.equal(new ZipReader(zip).entries[0].name, '공시.xml');
+    });
+
+    test('rejects data that is not a ZIP file', () => {
+        assert.throws(() => new ZipReader(Buffer.from('<html>오류</html>')), /Not a ZIP file/);
+        assert.throws(() => new ZipReader(Buffer.alloc(100)), /end of central directory not found/);
+    });
+
+    test('rejects entries larger than the limit before inflating them', () => {
+        const reader = new ZipReader(createZip({ 'big.xml': 'x'.repeat(1024) }), 100);
+        assert.throws(() => reader.read(reader.entries[0]), /ZIP entry too large: big\.xml/);
+    });
+
+    test('stops inflating at the declared size', () => {
+        const zip = createZip({ 'bomb.xml': 'x'.repeat(64 * 1024) });
+        const centralDirectory = zip.readUInt32LE(zip.length - 6);
+        // 중앙 디렉터리의 압축 해제 크기를 실제보다 작게 선언
+        zip.writeUInt32LE(10, centralDirectory + 24);
+        const reader = new ZipReader(zip);
+
+        assert.throws(() => reader.read(reader.entries[0]), /inflates to more than the declared 10 bytes/);
+    });
+});